@@ -2,14 +2,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Outlet } from "react-router-dom";
+import { CartProvider } from "@/contexts/CartContext";
 import Index from "./pages/Index";
 import TableScan from "./pages/TableScan";
 import Menu from "./pages/Menu";
 import MenuKids from "./pages/MenuKids";
-import OrderConfirmation from "./pages/OrderConfirmation";
+import OrderTracking from "./pages/OrderTracking";
+import TableTab from "./pages/TableTab";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
+import Kitchen from "./pages/Kitchen";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,11 +26,16 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/table-scan" element={<TableScan />} />
-          <Route path="/menu" element={<Menu />} />
-          <Route path="/menu-kids" element={<MenuKids />} />
-          <Route path="/order-confirmation" element={<OrderConfirmation />} />
+          <Route path="/t/:qrToken" element={<TableScan />} />
+          <Route element={<CartProvider><Outlet /></CartProvider>}>
+            <Route path="/menu" element={<Menu />} />
+            <Route path="/menu-kids" element={<MenuKids />} />
+          </Route>
+          <Route path="/order/:id" element={<OrderTracking />} />
+          <Route path="/tab" element={<TableTab />} />
           <Route path="/admin/login" element={<AdminLogin />} />
           <Route path="/admin" element={<AdminDashboard />} />
+          <Route path="/kitchen" element={<Kitchen />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,54 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { isPayable, paymentStatusLabels, splitModeLabels, type Payment } from "@/lib/bill-split";
+import { getRefundableAmount } from "@/lib/payments";
+
+interface BillSharesListProps {
+  payments: Payment[];
+  onPay?: (payment: Payment) => void;
+  payLabel?: string;
+  // Staff only
+  onRefund?: (payment: Payment) => void;
+}
+
+const BillSharesList = ({ payments, onPay, payLabel = "Payer", onRefund }: BillSharesListProps) => {
+  if (payments.length === 0) return null;
+
+  const sorted = [...payments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const paidCount = payments.filter((payment) => payment.status === "paid").length;
+  const activeCount = payments.filter((payment) => payment.status !== "refunded").length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {splitModeLabels[sorted[sorted.length - 1].split_mode]} · {paidCount}/{activeCount} part(s) réglée(s)
+      </p>
+      {sorted.map((payment) => (
+        <div key={payment.id} className="flex items-center justify-between gap-2 text-sm">
+          <span className="flex-1">{payment.label}</span>
+          <span className="font-medium">{Number(payment.amount).toFixed(2)} €</span>
+          {payment.status === "paid" && Number(payment.refunded_amount) > 0 && (
+            <span className="text-muted-foreground">
+              −{Number(payment.refunded_amount).toFixed(2)} € remboursés
+            </span>
+          )}
+          <Badge variant={payment.status === "paid" ? "secondary" : "outline"}>
+            {paymentStatusLabels[payment.status]}
+          </Badge>
+          {onPay && isPayable(payment) && (
+            <Button size="sm" onClick={() => onPay(payment)}>
+              {payLabel}
+            </Button>
+          )}
+          {onRefund && getRefundableAmount(payment) > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => onRefund(payment)}>
+              Rembourser
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BillSharesList;
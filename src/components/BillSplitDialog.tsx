@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { isOrderValidationError } from "@/lib/orders";
+import { splitModeLabels, splitTableBill, type BillShareInput, type BillSplitMode } from "@/lib/bill-split";
+
+export interface SplittableItem {
+  id: string;
+  name: string;
+  subtotal: number;
+}
+
+interface BillSplitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  // Lines not yet covered by a paid share
+  items: SplittableItem[];
+  remaining: number;
+  onSplit?: () => void;
+}
+
+const MAX_SHARES = 20;
+
+// Same rounding as split_table_bill: leftover cents go to the first share
+const getEvenAmounts = (remaining: number, count: number) => {
+  const base = Math.floor((remaining * 100) / count) / 100;
+  return Array.from({ length: count }, (_, index) =>
+    index === 0 ? remaining - base * (count - 1) : base
+  );
+};
+
+const BillSplitDialog = ({
+  open,
+  onOpenChange,
+  sessionId,
+  items,
+  remaining,
+  onSplit,
+}: BillSplitDialogProps) => {
+  const [mode, setMode] = useState<BillSplitMode>("even");
+  const [shareCount, setShareCount] = useState(2);
+  const [itemShares, setItemShares] = useState<Record<string, number>>({});
+  const [customShares, setCustomShares] = useState([
+    { label: "", amount: "" },
+    { label: "", amount: "" },
+  ]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setItemShares({});
+  }, [open]);
+
+  const getItemShare = (itemId: string) => Math.min(itemShares[itemId] || 1, shareCount);
+
+  const itemShareTotals = Array.from({ length: shareCount }, (_, index) =>
+    items
+      .filter((item) => getItemShare(item.id) === index + 1)
+      .reduce((sum, item) => sum + Number(item.subtotal), 0)
+  );
+
+  const customTotal = customShares.reduce((sum, share) => sum + (parseFloat(share.amount) || 0), 0);
+
+  const buildShares = (): BillShareInput[] => {
+    if (mode === "even") {
+      return Array.from({ length: shareCount }, () => ({}));
+    }
+    if (mode === "items") {
+      return Array.from({ length: shareCount }, (_, index) => ({
+        order_item_ids: items
+          .filter((item) => getItemShare(item.id) === index + 1)
+          .map((item) => item.id),
+      })).filter((share) => share.order_item_ids.length > 0);
+    }
+    return customShares.map((share) => ({
+      label: share.label,
+      amount: parseFloat(share.amount) || 0,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await splitTableBill(sessionId, mode, buildShares());
+      toast({
+        title: "Addition partagée",
+        description: "Chaque part peut maintenant être réglée séparément",
+      });
+      onSplit?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error splitting bill:", error);
+      toast({
+        title: "Erreur",
+        description: isOrderValidationError(error)
+          ? (error as Error).message
+          : "Impossible de partager l'addition",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const shareCountInput = (
+    <div className="flex items-center gap-3">
+      <Label htmlFor="share-count">Nombre de parts</Label>
+      <Input
+        id="share-count"
+        type="number"
+        min={2}
+        max={MAX_SHARES}
+        value={shareCount}
+        onChange={(e) =>
+          setShareCount(Math.min(MAX_SHARES, Math.max(2, parseInt(e.target.value) || 2)))
+        }
+        className="w-20"
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Partager l'addition</DialogTitle>
+          <DialogDescription>
+            Reste à payer : {remaining.toFixed(2)} €
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as BillSplitMode)}>
+          <TabsList className="grid w-full grid-cols-3">
+            {(Object.keys(splitModeLabels) as BillSplitMode[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {splitModeLabels[key]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value="even" className="space-y-4">
+            {shareCountInput}
+            <div className="space-y-1">
+              {getEvenAmounts(remaining, shareCount).map((amount, index) => (
+                <div key={index} className="flex justify-between text-sm">
+                  <span>Part {index + 1}</span>
+                  <span>{amount.toFixed(2)} €</span>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="items" className="space-y-4">
+            {shareCountInput}
+            <div className="space-y-2">
+              {items.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex-1">{item.name}</span>
+                  <span>{Number(item.subtotal).toFixed(2)} €</span>
+                  <Select
+                    value={getItemShare(item.id).toString()}
+                    onValueChange={(value) =>
+                      setItemShares((prev) => ({ ...prev, [item.id]: parseInt(value) }))
+                    }
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: shareCount }, (_, index) => (
+                        <SelectItem key={index} value={(index + 1).toString()}>
+                          Part {index + 1}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="border-t pt-2 space-y-1">
+              {itemShareTotals.map((amount, index) => (
+                <div key={index} className="flex justify-between text-sm font-medium">
+                  <span>Part {index + 1}</span>
+                  <span>{amount.toFixed(2)} €</span>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="custom" className="space-y-4">
+            {customShares.map((share, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder={`Part ${index + 1}`}
+                  value={share.label}
+                  onChange={(e) =>
+                    setCustomShares((prev) =>
+                      prev.map((s, i) => (i === index ? { ...s, label: e.target.value } : s))
+                    )
+                  }
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={share.amount}
+                  onChange={(e) =>
+                    setCustomShares((prev) =>
+                      prev.map((s, i) => (i === index ? { ...s, amount: e.target.value } : s))
+                    )
+                  }
+                  className="w-28"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={customShares.length <= 1}
+                  onClick={() => setCustomShares((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={customShares.length >= MAX_SHARES}
+              onClick={() => setCustomShares((prev) => [...prev, { label: "", amount: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter une part
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Total des parts : {customTotal.toFixed(2)} € / {remaining.toFixed(2)} €
+            </p>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || remaining <= 0}>
+            {isSubmitting ? "Partage..." : "Valider le partage"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BillSplitDialog;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   Sheet,
@@ -9,53 +9,79 @@ import {
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Minus, Plus, Trash2, ShoppingCart } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Minus, Plus, Trash2, ShoppingCart, User } from "lucide-react";
+import { isOrderValidationError, submitSharedCart } from "@/lib/orders";
+import {
+  computeServiceCharge,
+  computeTip,
+  fetchCheckoutSettings,
+  formatTipPreset,
+  type CheckoutSettings,
+  type TipPreset,
+} from "@/lib/tips";
 import { useToast } from "@/hooks/use-toast";
-import { SelectedOption } from "@/pages/Menu";
-
-interface CartItem {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-  comment?: string;
-  selectedOptions?: SelectedOption[];
-}
+import { useCart } from "@/hooks/use-cart";
+import type { SharedCartItem } from "@/hooks/use-shared-cart";
+import { flattenOptions, getOptionsTotal } from "@/lib/dish-options";
 
 interface CartSheetProps {
-  cart: CartItem[];
   isOpen: boolean;
   onClose: () => void;
-  onUpdateItem: (itemIndex: number, quantity: number, comment?: string) => void;
-  onRemoveItem: (itemIndex: number) => void;
 }
 
-const CartSheet = ({
-  cart,
-  isOpen,
-  onClose,
-  onUpdateItem,
-  onRemoveItem,
-}: CartSheetProps) => {
+const CartSheet = ({ isOpen, onClose }: CartSheetProps) => {
+  const {
+    items: cart,
+    sessionId,
+    userId: currentUserId,
+    members,
+    guestCount,
+    setGuestCount: onGuestCountChange,
+    updateItem: onUpdateItem,
+    removeItem: onRemoveItem,
+    setDisplayName: onDisplayNameChange,
+  } = useCart();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [checkoutSettings, setCheckoutSettings] = useState<CheckoutSettings | null>(null);
+  const [tip, setTip] = useState<TipPreset | null>(null);
+  // One key per cart content: retries and double taps reuse it, any edit renews it
+  const idempotencyKey = useRef(crypto.randomUUID());
+  const submittingRef = useRef(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const getItemTotal = (item: CartItem) => {
+  useEffect(() => {
+    idempotencyKey.current = crypto.randomUUID();
+  }, [cart, tip]);
+
+  useEffect(() => {
+    const tableToken = sessionStorage.getItem("tableToken");
+    if (!isOpen || !tableToken) return;
+
+    fetchCheckoutSettings(tableToken)
+      .then(setCheckoutSettings)
+      .catch((error) => console.error("Error fetching checkout settings:", error));
+  }, [isOpen]);
+
+  const myName = members.find((m) => m.user_id === currentUserId)?.display_name || "";
+
+  const getAddedByLabel = (item: SharedCartItem) => {
+    if (item.addedBy === currentUserId) return "Vous";
+    return members.find((m) => m.user_id === item.addedBy)?.display_name || "Un convive";
+  };
+
+  const getItemTotal = (item: SharedCartItem) => {
     const basePrice = item.price;
-    const optionsPrice = item.selectedOptions?.reduce(
-      (sum, opt) => sum + opt.priceModifier,
-      0
-    ) || 0;
+    const optionsPrice = getOptionsTotal(item.selectedOptions || []);
     return (basePrice + optionsPrice) * item.quantity;
   };
 
-  const getTotal = () => {
-    return cart.reduce((sum, item) => sum + getItemTotal(item), 0);
-  };
+  const subtotal = cart.reduce((sum, item) => sum + getItemTotal(item), 0);
+  const serviceCharge = computeServiceCharge(checkoutSettings, guestCount ?? 1, subtotal);
+  const tipAmount = computeTip(tip, subtotal);
 
   const handleSubmitOrder = async () => {
     if (cart.length === 0) {
@@ -67,8 +93,7 @@ const CartSheet = ({
       return;
     }
 
-    const tableId = sessionStorage.getItem("tableId");
-    if (!tableId) {
+    if (!sessionId) {
       toast({
         title: "Erreur",
         description: "Session expirée, veuillez rescanner le QR code",
@@ -78,57 +103,33 @@ const CartSheet = ({
       return;
     }
 
+    if (submittingRef.current) return;
+    submittingRef.current = true;
     setIsSubmitting(true);
 
     try {
-      const total = getTotal();
-
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          table_id: tableId,
-          total: total,
-          status: "received",
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = cart.map((item) => ({
-        order_id: order.id,
-        dish_id: item.id,
-        quantity: item.quantity,
-        unit_price: item.price,
-        subtotal: getItemTotal(item),
-        comment: item.comment || null,
-        options_selected: item.selectedOptions ? JSON.parse(JSON.stringify(item.selectedOptions)) : [],
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
+      // Prices are recomputed server-side from the dishes and options tables
+      const orderId = await submitSharedCart(sessionId, idempotencyKey.current, tip);
+      idempotencyKey.current = crypto.randomUUID();
 
       toast({
         title: "Commande envoyée !",
         description: "Votre commande a été transmise à la cuisine",
       });
 
-      // Navigate to confirmation
-      navigate("/order-confirmation", { state: { orderId: order.id } });
+      navigate(`/order/${orderId}`);
       onClose();
     } catch (error) {
       console.error("Error submitting order:", error);
       toast({
         title: "Erreur",
-        description: "Impossible d'envoyer la commande",
+        description: isOrderValidationError(error)
+          ? (error as Error).message
+          : "Impossible d'envoyer la commande",
         variant: "destructive",
       });
     } finally {
+      submittingRef.current = false;
       setIsSubmitting(false);
     }
   };
@@ -139,15 +140,40 @@ const CartSheet = ({
         <SheetHeader>
           <SheetTitle className="flex items-center gap-2">
             <ShoppingCart className="h-5 w-5" />
-            Votre Panier
+            Panier de la table
           </SheetTitle>
           <SheetDescription>
             {cart.length === 0
-              ? "Votre panier est vide"
-              : `${cart.length} article(s)`}
+              ? "Le panier est vide"
+              : `${cart.length} article(s), partagé avec toute la table`}
           </SheetDescription>
         </SheetHeader>
 
+        <Input
+          key={myName}
+          placeholder="Votre prénom (visible par la table)"
+          defaultValue={myName}
+          onBlur={(e) => {
+            if (e.target.value !== myName) onDisplayNameChange(e.target.value);
+          }}
+        />
+        <div className="flex items-center gap-2">
+          <Label htmlFor="guest-count" className="flex-1">Nombre de convives</Label>
+          <Input
+            id="guest-count"
+            key={guestCount ?? "none"}
+            type="number"
+            min="1"
+            max="99"
+            className="w-20"
+            defaultValue={guestCount ?? ""}
+            onBlur={(e) => {
+              const count = parseInt(e.target.value);
+              if (count >= 1 && count <= 99 && count !== guestCount) onGuestCountChange(count);
+            }}
+          />
+        </div>
+
         <div className="flex-1 overflow-y-auto py-4">
           {cart.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
@@ -156,19 +182,30 @@ const CartSheet = ({
             </div>
           ) : (
             <div className="space-y-4">
-              {cart.map((item, index) => (
-                <div key={`${item.id}-${index}`} className="bg-muted/30 rounded-lg p-4 space-y-3">
+              {cart.map((item) => (
+                <div key={item.cartItemId} className="bg-muted/30 rounded-lg p-4 space-y-3">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <h4 className="font-semibold">{item.name}</h4>
                       <p className="text-sm text-muted-foreground">
                         {item.price.toFixed(2)} € × {item.quantity}
                       </p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        Ajouté par {getAddedByLabel(item)}
+                      </p>
                       {item.selectedOptions && item.selectedOptions.length > 0 && (
                         <div className="mt-2 space-y-1">
-                          {item.selectedOptions.map((opt, optIdx) => (
-                            <div key={optIdx} className="text-xs text-muted-foreground flex items-center gap-1">
-                              <span>• {opt.optionName}</span>
+                          {flattenOptions(item.selectedOptions).map(({ option: opt, depth }, optIdx) => (
+                            <div
+                              key={optIdx}
+                              className="text-xs text-muted-foreground flex items-center gap-1"
+                              style={{ paddingLeft: `${depth * 0.75}rem` }}
+                            >
+                              <span>
+                                • {(opt.quantity ?? 1) > 1 && `${opt.quantity}× `}
+                                {opt.optionName}
+                              </span>
                               {opt.priceModifier !== 0 && (
                                 <span className="text-primary">
                                   ({opt.priceModifier > 0 ? "+" : ""}
@@ -191,7 +228,7 @@ const CartSheet = ({
                       size="icon"
                       className="h-8 w-8"
                       onClick={() =>
-                        onUpdateItem(index, item.quantity - 1, item.comment)
+                        onUpdateItem(item.cartItemId, item.quantity - 1, item.comment)
                       }
                     >
                       <Minus className="h-4 w-4" />
@@ -201,7 +238,7 @@ const CartSheet = ({
                       value={item.quantity}
                       onChange={(e) =>
                         onUpdateItem(
-                          index,
+                          item.cartItemId,
                           parseInt(e.target.value) || 1,
                           item.comment
                         )
@@ -214,7 +251,7 @@ const CartSheet = ({
                       size="icon"
                       className="h-8 w-8"
                       onClick={() =>
-                        onUpdateItem(index, item.quantity + 1, item.comment)
+                        onUpdateItem(item.cartItemId, item.quantity + 1, item.comment)
                       }
                     >
                       <Plus className="h-4 w-4" />
@@ -223,18 +260,22 @@ const CartSheet = ({
                       variant="destructive"
                       size="icon"
                       className="h-8 w-8 ml-auto"
-                      onClick={() => onRemoveItem(index)}
+                      onClick={() => onRemoveItem(item.cartItemId)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
                   </div>
 
+                  {/* Saved on blur so other guests don't get an update per keystroke */}
                   <Textarea
+                    key={item.comment}
                     placeholder="Commentaire (ex: sans oignon, bien cuit...)"
-                    value={item.comment || ""}
-                    onChange={(e) =>
-                      onUpdateItem(index, item.quantity, e.target.value)
-                    }
+                    defaultValue={item.comment || ""}
+                    onBlur={(e) => {
+                      if (e.target.value !== (item.comment || "")) {
+                        onUpdateItem(item.cartItemId, item.quantity, e.target.value);
+                      }
+                    }}
                     className="min-h-[60px] text-sm"
                   />
                 </div>
@@ -245,16 +286,60 @@ const CartSheet = ({
 
         {cart.length > 0 && (
           <div className="border-t pt-4 space-y-4">
+            {checkoutSettings && checkoutSettings.tipPresets.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Pourboire</p>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant={tip === null ? "default" : "outline"}
+                    onClick={() => setTip(null)}
+                  >
+                    Aucun
+                  </Button>
+                  {checkoutSettings.tipPresets.map((preset, index) => (
+                    <Button
+                      key={index}
+                      size="sm"
+                      variant={tip?.type === preset.type && tip.value === preset.value ? "default" : "outline"}
+                      onClick={() => setTip(preset)}
+                    >
+                      {formatTipPreset(preset)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Sous-total</span>
+                <span>{subtotal.toFixed(2)} €</span>
+              </div>
+              {serviceCharge > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Service ({checkoutSettings?.serviceChargePercent} %, table de {guestCount})</span>
+                  <span>{serviceCharge.toFixed(2)} €</span>
+                </div>
+              )}
+              {tipAmount > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Pourboire</span>
+                  <span>{tipAmount.toFixed(2)} €</span>
+                </div>
+              )}
+            </div>
+
             <div className="flex items-center justify-between text-lg font-bold">
-              <span>Total</span>
-              <span className="text-primary">{getTotal().toFixed(2)} €</span>
+              <span>Total TTC</span>
+              <span className="text-primary">{(subtotal + serviceCharge + tipAmount).toFixed(2)} €</span>
             </div>
             <Button
               onClick={handleSubmitOrder}
               disabled={isSubmitting}
               className="w-full h-12 text-lg"
             >
-              {isSubmitting ? "Envoi..." : "Valider la commande"}
+              {isSubmitting ? "Envoi..." : "Envoyer la commande de la table"}
             </Button>
           </div>
         )}
@@ -6,9 +6,23 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Plus } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Minus, Plus } from "lucide-react";
+import {
+  canAddOptionUnit,
+  describeGroupRules,
+  fetchDishOptions,
+  getActiveGroups,
+  getChildGroups,
+  getGroupError,
+  getOptionsTotal,
+  priceSelection,
+  withOptionQuantity,
+  type DishOption,
+  type DishOptionGroup,
+  type OptionQuantities,
+} from "@/lib/dish-options";
 import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
 
 interface Dish {
   id: string;
@@ -20,51 +34,28 @@ interface Dish {
   is_available: boolean;
 }
 
-interface DishOption {
-  id: string;
-  name: string;
-  price_modifier: number;
-}
-
-interface DishOptionGroup {
-  id: string;
-  name: string;
-  is_required: boolean;
-  allow_multiple: boolean;
-  options: DishOption[];
-}
-
-interface SelectedOption {
-  groupId: string;
-  groupName: string;
-  optionId: string;
-  optionName: string;
-  priceModifier: number;
-}
-
 interface DishCustomizationDialogProps {
   dish: Dish | null;
   isOpen: boolean;
   onClose: () => void;
-  onAddToCart: (dish: Dish, selectedOptions: SelectedOption[], comment: string) => void;
 }
 
 const DishCustomizationDialog = ({
   dish,
   isOpen,
   onClose,
-  onAddToCart,
 }: DishCustomizationDialogProps) => {
   const [optionGroups, setOptionGroups] = useState<DishOptionGroup[]>([]);
-  const [selectedOptions, setSelectedOptions] = useState<SelectedOption[]>([]);
+  const [quantities, setQuantities] = useState<OptionQuantities>({});
   const [comment, setComment] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { addItem } = useCart();
 
   useEffect(() => {
     if (dish && isOpen) {
       fetchOptionGroups();
-      setSelectedOptions([]);
+      setQuantities({});
       setComment("");
     }
   }, [dish, isOpen]);
@@ -74,36 +65,7 @@ const DishCustomizationDialog = ({
 
     setIsLoading(true);
     try {
-      const { data: groups, error: groupsError } = await supabase
-        .from("dish_option_groups")
-        .select("*")
-        .eq("dish_id", dish.id)
-        .order("display_order");
-
-      if (groupsError) throw groupsError;
-
-      if (groups && groups.length > 0) {
-        const groupsWithOptions = await Promise.all(
-          groups.map(async (group) => {
-            const { data: options, error: optionsError } = await supabase
-              .from("dish_options")
-              .select("*")
-              .eq("option_group_id", group.id)
-              .order("display_order");
-
-            if (optionsError) throw optionsError;
-
-            return {
-              ...group,
-              options: options || [],
-            };
-          })
-        );
-
-        setOptionGroups(groupsWithOptions);
-      } else {
-        setOptionGroups([]);
-      }
+      setOptionGroups(await fetchDishOptions(dish.id));
     } catch (error) {
       console.error("Error fetching option groups:", error);
       toast({
@@ -116,86 +78,175 @@ const DishCustomizationDialog = ({
     }
   };
 
-  const handleOptionToggle = (group: DishOptionGroup, option: DishOption, checked: boolean) => {
-    if (checked) {
-      if (group.allow_multiple) {
-        setSelectedOptions([
-          ...selectedOptions,
-          {
-            groupId: group.id,
-            groupName: group.name,
-            optionId: option.id,
-            optionName: option.name,
-            priceModifier: option.price_modifier,
-          },
-        ]);
-      } else {
-        setSelectedOptions([
-          ...selectedOptions.filter((opt) => opt.groupId !== group.id),
-          {
-            groupId: group.id,
-            groupName: group.name,
-            optionId: option.id,
-            optionName: option.name,
-            priceModifier: option.price_modifier,
-          },
-        ]);
-      }
-    } else {
-      setSelectedOptions(selectedOptions.filter((opt) => opt.optionId !== option.id));
-    }
-  };
-
-  const handleRadioChange = (group: DishOptionGroup, optionId: string) => {
-    const option = group.options.find((opt) => opt.id === optionId);
-    if (!option) return;
-
-    setSelectedOptions([
-      ...selectedOptions.filter((opt) => opt.groupId !== group.id),
-      {
-        groupId: group.id,
-        groupName: group.name,
-        optionId: option.id,
-        optionName: option.name,
-        priceModifier: option.price_modifier,
-      },
-    ]);
+  const setOptionQuantity = (group: DishOptionGroup, option: DishOption, quantity: number) => {
+    setQuantities(withOptionQuantity(quantities, group, option, quantity));
   };
 
-  const isGroupValid = (group: DishOptionGroup) => {
-    if (!group.is_required) return true;
-    return selectedOptions.some((opt) => opt.groupId === group.id);
-  };
+  const selectedOptions = priceSelection(optionGroups, quantities);
+  const groupErrors = getActiveGroups(optionGroups, quantities)
+    .map((group) => getGroupError(group, quantities))
+    .filter(Boolean);
 
   const canAddToCart = () => {
-    return optionGroups.every((group) => isGroupValid(group));
+    return groupErrors.length === 0;
   };
 
   const getTotalPrice = () => {
     if (!dish) return 0;
     const basePrice = dish.price;
-    const modifiersTotal = selectedOptions.reduce(
-      (sum, opt) => sum + opt.priceModifier,
-      0
-    );
+    const modifiersTotal = getOptionsTotal(selectedOptions);
     return basePrice + modifiersTotal;
   };
 
-  const handleAddToCart = () => {
+  const renderOptionLabel = (option: DishOption) => (
+    <>
+      {option.name}
+      {option.price_modifier !== 0 && (
+        <span className="ml-2 text-muted-foreground">
+          ({option.price_modifier > 0 ? "+" : ""}
+          {option.price_modifier.toFixed(2)} €)
+        </span>
+      )}
+    </>
+  );
+
+  const handleAddToCart = async () => {
     if (!dish) return;
     if (!canAddToCart()) {
       toast({
         title: "Options manquantes",
-        description: "Veuillez sélectionner toutes les options obligatoires",
+        description: groupErrors[0],
         variant: "destructive",
       });
       return;
     }
 
-    onAddToCart(dish, selectedOptions, comment);
-    onClose();
+    try {
+      await addItem(dish, selectedOptions, comment);
+      toast({
+        title: "Ajouté au panier",
+        description: `${dish.name} a été ajouté`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error adding to cart:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'ajouter ce plat au panier",
+        variant: "destructive",
+      });
+    }
   };
 
+  // A group, followed by the groups its chosen options open
+  const renderGroup = (group: DishOptionGroup): JSX.Element => (
+    <div
+      key={group.id}
+      className={group.parent_option_id ? "space-y-3 ml-4 pl-4 border-l-2" : "space-y-3"}
+    >
+      <div className="flex items-center gap-2">
+        <h3 className="font-semibold text-lg">{group.name}</h3>
+        {group.min_select > 0 && (
+          <Badge variant="destructive" className="text-xs">
+            Obligatoire
+          </Badge>
+        )}
+        {describeGroupRules(group) ? (
+          <Badge variant="secondary" className="text-xs">
+            {describeGroupRules(group)}
+          </Badge>
+        ) : (
+          group.allow_multiple && (
+            <Badge variant="secondary" className="text-xs">
+              Choix multiple
+            </Badge>
+          )
+        )}
+      </div>
+
+      {group.max_select === 1 && group.options.every((option) => option.max_quantity === 1) ? (
+        <RadioGroup
+          value={group.options.find((option) => quantities[option.id])?.id || ""}
+          onValueChange={(value) => {
+            const option = group.options.find((opt) => opt.id === value);
+            if (option) setOptionQuantity(group, option, 1);
+          }}
+        >
+          {group.options.map((option) => (
+            <div key={option.id} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.id} id={`radio-${option.id}`} />
+              <Label
+                htmlFor={`radio-${option.id}`}
+                className="flex-1 cursor-pointer"
+              >
+                {renderOptionLabel(option)}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      ) : (
+        <div className="space-y-2">
+          {group.options.map((option) => {
+            const quantity = quantities[option.id] || 0;
+            const canAdd = canAddOptionUnit(group, option, quantities);
+
+            return option.max_quantity === 1 ? (
+              <div key={option.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`option-${option.id}`}
+                  checked={quantity > 0}
+                  disabled={quantity === 0 && !canAdd}
+                  onCheckedChange={(checked) =>
+                    setOptionQuantity(group, option, checked ? 1 : 0)
+                  }
+                />
+                <Label
+                  htmlFor={`option-${option.id}`}
+                  className="flex-1 cursor-pointer"
+                >
+                  {renderOptionLabel(option)}
+                </Label>
+              </div>
+            ) : (
+              <div key={option.id} className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={quantity === 0}
+                  onClick={() => setOptionQuantity(group, option, quantity - 1)}
+                >
+                  <Minus className="h-3 w-3" />
+                </Button>
+                <span className="w-6 text-center font-semibold">{quantity}</span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={!canAdd}
+                  onClick={() => setOptionQuantity(group, option, quantity + 1)}
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+                <span className="flex-1">
+                  {renderOptionLabel(option)}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    (jusqu'à {option.max_quantity})
+                  </span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {group.options
+        .filter((option) => quantities[option.id])
+        .flatMap((option) => getChildGroups(optionGroups, option.id))
+        .map(renderGroup)}
+    </div>
+  );
+
   if (!dish) return null;
 
   return (
@@ -216,79 +267,7 @@ const DishCustomizationDialog = ({
               Aucune option de personnalisation disponible
             </p>
           ) : (
-            optionGroups.map((group) => (
-              <div key={group.id} className="space-y-3">
-                <div className="flex items-center gap-2">
-                  <h3 className="font-semibold text-lg">{group.name}</h3>
-                  {group.is_required && (
-                    <Badge variant="destructive" className="text-xs">
-                      Obligatoire
-                    </Badge>
-                  )}
-                  {group.allow_multiple && (
-                    <Badge variant="secondary" className="text-xs">
-                      Choix multiple
-                    </Badge>
-                  )}
-                </div>
-
-                {group.allow_multiple ? (
-                  <div className="space-y-2">
-                    {group.options.map((option) => (
-                      <div key={option.id} className="flex items-center space-x-2">
-                        <Checkbox
-                          id={`option-${option.id}`}
-                          checked={selectedOptions.some(
-                            (opt) => opt.optionId === option.id
-                          )}
-                          onCheckedChange={(checked) =>
-                            handleOptionToggle(group, option, checked as boolean)
-                          }
-                        />
-                        <Label
-                          htmlFor={`option-${option.id}`}
-                          className="flex-1 cursor-pointer"
-                        >
-                          {option.name}
-                          {option.price_modifier !== 0 && (
-                            <span className="ml-2 text-muted-foreground">
-                              ({option.price_modifier > 0 ? "+" : ""}
-                              {option.price_modifier.toFixed(2)} €)
-                            </span>
-                          )}
-                        </Label>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <RadioGroup
-                    value={
-                      selectedOptions.find((opt) => opt.groupId === group.id)
-                        ?.optionId || ""
-                    }
-                    onValueChange={(value) => handleRadioChange(group, value)}
-                  >
-                    {group.options.map((option) => (
-                      <div key={option.id} className="flex items-center space-x-2">
-                        <RadioGroupItem value={option.id} id={`radio-${option.id}`} />
-                        <Label
-                          htmlFor={`radio-${option.id}`}
-                          className="flex-1 cursor-pointer"
-                        >
-                          {option.name}
-                          {option.price_modifier !== 0 && (
-                            <span className="ml-2 text-muted-foreground">
-                              ({option.price_modifier > 0 ? "+" : ""}
-                              {option.price_modifier.toFixed(2)} €)
-                            </span>
-                          )}
-                        </Label>
-                      </div>
-                    ))}
-                  </RadioGroup>
-                )}
-              </div>
-            ))
+            getChildGroups(optionGroups, null).map(renderGroup)
           )}
 
           <div className="space-y-2">
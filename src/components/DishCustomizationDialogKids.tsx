@@ -5,8 +5,20 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Star, Sparkles } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import {
+  canAddOptionUnit,
+  fetchDishOptions,
+  getActiveGroups,
+  getGroupError,
+  getOptionsTotal,
+  priceSelection,
+  withOptionQuantity,
+  type DishOption,
+  type DishOptionGroup,
+  type OptionQuantities,
+} from "@/lib/dish-options";
 import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
 
 interface Dish {
   id: string;
@@ -18,33 +30,10 @@ interface Dish {
   is_available: boolean;
 }
 
-interface DishOption {
-  id: string;
-  name: string;
-  price_modifier: number;
-}
-
-interface DishOptionGroup {
-  id: string;
-  name: string;
-  is_required: boolean;
-  allow_multiple: boolean;
-  options: DishOption[];
-}
-
-interface SelectedOption {
-  groupId: string;
-  groupName: string;
-  optionId: string;
-  optionName: string;
-  priceModifier: number;
-}
-
 interface DishCustomizationDialogKidsProps {
   dish: Dish | null;
   isOpen: boolean;
   onClose: () => void;
-  onAddToCart: (dish: Dish, selectedOptions: SelectedOption[], comment: string) => void;
 }
 
 const optionEmojis: Record<string, string> = {
@@ -60,18 +49,18 @@ const DishCustomizationDialogKids = ({
   dish,
   isOpen,
   onClose,
-  onAddToCart,
 }: DishCustomizationDialogKidsProps) => {
   const [optionGroups, setOptionGroups] = useState<DishOptionGroup[]>([]);
-  const [selectedOptions, setSelectedOptions] = useState<SelectedOption[]>([]);
+  const [quantities, setQuantities] = useState<OptionQuantities>({});
   const [comment, setComment] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const { addItem } = useCart();
 
   useEffect(() => {
     if (dish && isOpen) {
       fetchOptionGroups();
-      setSelectedOptions([]);
+      setQuantities({});
       setComment("");
     }
   }, [dish, isOpen]);
@@ -81,36 +70,7 @@ const DishCustomizationDialogKids = ({
 
     setIsLoading(true);
     try {
-      const { data: groups, error: groupsError } = await supabase
-        .from("dish_option_groups")
-        .select("*")
-        .eq("dish_id", dish.id)
-        .order("display_order");
-
-      if (groupsError) throw groupsError;
-
-      if (groups && groups.length > 0) {
-        const groupsWithOptions = await Promise.all(
-          groups.map(async (group) => {
-            const { data: options, error: optionsError } = await supabase
-              .from("dish_options")
-              .select("*")
-              .eq("option_group_id", group.id)
-              .order("display_order");
-
-            if (optionsError) throw optionsError;
-
-            return {
-              ...group,
-              options: options || [],
-            };
-          })
-        );
-
-        setOptionGroups(groupsWithOptions);
-      } else {
-        setOptionGroups([]);
-      }
+      setOptionGroups(await fetchDishOptions(dish.id));
     } catch (error) {
       console.error("Error fetching option groups:", error);
       toast({
@@ -123,68 +83,57 @@ const DishCustomizationDialogKids = ({
     }
   };
 
-  const handleOptionToggle = (group: DishOptionGroup, option: DishOption, checked: boolean) => {
-    if (checked) {
-      if (group.allow_multiple) {
-        setSelectedOptions([
-          ...selectedOptions,
-          {
-            groupId: group.id,
-            groupName: group.name,
-            optionId: option.id,
-            optionName: option.name,
-            priceModifier: option.price_modifier,
-          },
-        ]);
-      } else {
-        setSelectedOptions([
-          ...selectedOptions.filter((opt) => opt.groupId !== group.id),
-          {
-            groupId: group.id,
-            groupName: group.name,
-            optionId: option.id,
-            optionName: option.name,
-            priceModifier: option.price_modifier,
-          },
-        ]);
-      }
-    } else {
-      setSelectedOptions(selectedOptions.filter((opt) => opt.optionId !== option.id));
+  // Each tap adds one more, up to what's allowed, then the next one clears it
+  const handleOptionTap = (group: DishOptionGroup, option: DishOption) => {
+    const quantity = quantities[option.id] || 0;
+    if (canAddOptionUnit(group, option, quantities)) {
+      setQuantities(withOptionQuantity(quantities, group, option, quantity + 1));
+    } else if (quantity > 0) {
+      setQuantities(withOptionQuantity(quantities, group, option, 0));
     }
   };
 
-  const isGroupValid = (group: DishOptionGroup) => {
-    if (!group.is_required) return true;
-    return selectedOptions.some((opt) => opt.groupId === group.id);
-  };
+  const selectedOptions = priceSelection(optionGroups, quantities);
+  const activeGroups = getActiveGroups(optionGroups, quantities);
+  const groupErrors = activeGroups.map((group) => getGroupError(group, quantities)).filter(Boolean);
 
   const canAddToCart = () => {
-    return optionGroups.every((group) => isGroupValid(group));
+    return groupErrors.length === 0;
   };
 
   const getTotalPrice = () => {
     if (!dish) return 0;
     const basePrice = dish.price;
-    const modifiersTotal = selectedOptions.reduce(
-      (sum, opt) => sum + opt.priceModifier,
-      0
-    );
+    const modifiersTotal = getOptionsTotal(selectedOptions);
     return basePrice + modifiersTotal;
   };
 
-  const handleAddToCart = () => {
+  const handleAddToCart = async () => {
     if (!dish) return;
     if (!canAddToCart()) {
       toast({
         title: "Options manquantes",
-        description: "Veuillez sélectionner toutes les options obligatoires",
+        description: groupErrors[0],
         variant: "destructive",
       });
       return;
     }
 
-    onAddToCart(dish, selectedOptions, comment);
-    onClose();
+    try {
+      await addItem(dish, selectedOptions, comment);
+      toast({
+        title: "Ajouté au panier",
+        description: `${dish.name} a été ajouté`,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error adding to cart:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'ajouter ce plat au panier",
+        variant: "destructive",
+      });
+    }
   };
 
   const getOptionEmoji = (optionName: string) => {
@@ -220,7 +169,8 @@ const DishCustomizationDialogKids = ({
                 Aucune option disponible
               </p>
             ) : (
-              optionGroups.map((group) => (
+              // A group shows up once the option it depends on is picked
+              activeGroups.map((group) => (
                 <div key={group.id} className="kawaii-card p-6">
                   <h3 className="font-bold text-xl mb-4 text-center text-amber-900 uppercase">
                     {group.name} :
@@ -228,16 +178,13 @@ const DishCustomizationDialogKids = ({
 
                   <div className="grid grid-cols-3 gap-4">
                     {group.options.map((option) => {
-                      const isSelected = selectedOptions.some(
-                        (opt) => opt.optionId === option.id
-                      );
+                      const quantity = quantities[option.id] || 0;
+                      const isSelected = quantity > 0;
 
                       return (
                         <div key={option.id} className="flex flex-col items-center">
                           <button
-                            onClick={() =>
-                              handleOptionToggle(group, option, !isSelected)
-                            }
+                            onClick={() => handleOptionTap(group, option)}
                             className={`relative w-full aspect-square rounded-full p-2 transition-all duration-300 ${
                               isSelected
                                 ? "bg-gradient-to-br from-green-300 to-green-400 border-4 border-green-600 scale-105"
@@ -249,6 +196,11 @@ const DishCustomizationDialogKids = ({
                                 <Sparkles className="w-5 h-5 text-green-600" fill="currentColor" />
                               </div>
                             )}
+                            {quantity > 1 && (
+                              <div className="absolute top-2 right-2 bg-white rounded-full px-2 font-bold text-green-700">
+                                ×{quantity}
+                              </div>
+                            )}
                             <div className="w-full h-full rounded-full bg-white/50 flex items-center justify-center text-5xl">
                               {getOptionEmoji(option.name)}
                             </div>
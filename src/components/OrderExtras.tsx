@@ -0,0 +1,24 @@
+interface OrderExtrasProps {
+  serviceCharge: number;
+  tip: number;
+}
+
+// Service charge and tip lines, shown above an order total when present
+const OrderExtras = ({ serviceCharge, tip }: OrderExtrasProps) => (
+  <>
+    {Number(serviceCharge) > 0 && (
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>Service</span>
+        <span>{Number(serviceCharge).toFixed(2)} €</span>
+      </div>
+    )}
+    {Number(tip) > 0 && (
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>Pourboire</span>
+        <span>{Number(tip).toFixed(2)} €</span>
+      </div>
+    )}
+  </>
+);
+
+export default OrderExtras;
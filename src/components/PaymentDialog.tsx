@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Banknote, CreditCard } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { isOrderValidationError } from "@/lib/orders";
+import type { Payment } from "@/lib/bill-split";
+import { getPaymentProvider, payShare, recordCashPayment } from "@/lib/payments";
+
+interface PaymentDialogProps {
+  payment: Payment | null;
+  onOpenChange: (open: boolean) => void;
+  // Staff can also take cash at the counter
+  allowCash?: boolean;
+  onPaid?: () => void;
+}
+
+const PaymentDialog = ({ payment, onOpenChange, allowCash = false, onPaid }: PaymentDialogProps) => {
+  const [cardNumber, setCardNumber] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+  const provider = getPaymentProvider();
+
+  useEffect(() => {
+    if (payment) setCardNumber("");
+  }, [payment]);
+
+  const handleSuccess = () => {
+    toast({
+      title: "Paiement accepté",
+      description: `${payment!.label} : ${Number(payment!.amount).toFixed(2)} € réglés`,
+    });
+    onPaid?.();
+    onOpenChange(false);
+  };
+
+  const handleError = (error: unknown) => {
+    console.error("Error processing payment:", error);
+    toast({
+      title: "Erreur",
+      description: isOrderValidationError(error)
+        ? (error as Error).message
+        : "Le paiement n'a pas pu aboutir",
+      variant: "destructive",
+    });
+  };
+
+  const handleCardPayment = async () => {
+    if (!payment) return;
+
+    setIsProcessing(true);
+    try {
+      const intent = await payShare(payment, { cardNumber });
+      if (intent.status === "succeeded") {
+        handleSuccess();
+      } else {
+        toast({
+          title: "Paiement refusé",
+          description: intent.failureReason || "Veuillez essayer une autre carte",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCashPayment = async () => {
+    if (!payment) return;
+
+    setIsProcessing(true);
+    try {
+      await recordCashPayment(payment);
+      handleSuccess();
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Régler {payment?.label}</DialogTitle>
+          <DialogDescription>
+            Montant : {Number(payment?.amount ?? 0).toFixed(2)} € · {provider.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="card-number">Numéro de carte</Label>
+          <Input
+            id="card-number"
+            inputMode="numeric"
+            autoComplete="cc-number"
+            placeholder="4242 4242 4242 4242"
+            value={cardNumber}
+            onChange={(e) => setCardNumber(e.target.value)}
+          />
+          {provider.id === "mock" && (
+            <p className="text-xs text-muted-foreground">
+              Paiement simulé : aucune carte n'est débitée. Les cartes se terminant par 0002 sont refusées.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {allowCash && (
+            <Button variant="outline" onClick={handleCashPayment} disabled={isProcessing}>
+              <Banknote className="mr-2 h-4 w-4" />
+              Espèces
+            </Button>
+          )}
+          <Button onClick={handleCardPayment} disabled={isProcessing}>
+            <CreditCard className="mr-2 h-4 w-4" />
+            {isProcessing ? "Paiement..." : `Payer ${Number(payment?.amount ?? 0).toFixed(2)} €`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
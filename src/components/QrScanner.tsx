@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from "react";
+
+// BarcodeDetector is not part of the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+}
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const isQrScannerSupported = () =>
+  !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+interface QrScannerProps {
+  onDetected: (payload: string) => void;
+  onError: (message: string) => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const QrScanner = ({ onDetected, onError }: QrScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isStarting, setIsStarting] = useState(true);
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) {
+      onError("Votre navigateur ne permet pas de scanner les QR codes");
+      return;
+    }
+
+    const detector = new BarcodeDetector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        if (codes.length > 0 && !stopped) {
+          stopped = true;
+          onDetected(codes[0].rawValue);
+          return;
+        }
+      } catch (error) {
+        // Frames can fail to decode while the camera warms up
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          await videoRef.current.play();
+        }
+        setIsStarting(false);
+        scan();
+      })
+      .catch((error) => {
+        console.error("Error starting camera:", error);
+        onError("Impossible d'accéder à la caméra");
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [onDetected, onError]);
+
+  return (
+    <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-muted">
+      <video
+        ref={videoRef}
+        className="h-full w-full object-cover"
+        muted
+        playsInline
+      />
+      <div className="pointer-events-none absolute inset-8 rounded-lg border-4 border-white/80" />
+      {isStarting && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+          Démarrage de la caméra...
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QrScanner;
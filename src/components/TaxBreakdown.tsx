@@ -0,0 +1,36 @@
+import { formatTaxRate, getTaxBreakdown, type TaxedOrder } from "@/lib/tax";
+
+interface TaxBreakdownProps {
+  orders: TaxedOrder[];
+}
+
+// HT / TVA / TTC per VAT rate, as printed at the bottom of a receipt
+const TaxBreakdown = ({ orders }: TaxBreakdownProps) => {
+  const lines = getTaxBreakdown(orders);
+  if (lines.length === 0) return null;
+
+  return (
+    <table className="w-full text-xs text-muted-foreground">
+      <thead>
+        <tr>
+          <th className="text-left font-medium">TVA</th>
+          <th className="text-right font-medium">HT</th>
+          <th className="text-right font-medium">TVA</th>
+          <th className="text-right font-medium">TTC</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line) => (
+          <tr key={line.rate}>
+            <td>{formatTaxRate(line.rate)}</td>
+            <td className="text-right">{line.base.toFixed(2)} €</td>
+            <td className="text-right">{line.tax.toFixed(2)} €</td>
+            <td className="text-right">{line.total.toFixed(2)} €</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default TaxBreakdown;
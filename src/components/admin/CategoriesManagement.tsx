@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { GripVertical, Plus, Trash2 } from "lucide-react";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { fetchMenuCategories, formatVisibilityWindow, type MenuCategory } from "@/lib/menu-categories";
+import { cn } from "@/lib/utils";
+
+export default function CategoriesManagement() {
+  const [restaurantId, setRestaurantId] = useState<string | null>(null);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [dishCounts, setDishCounts] = useState<Map<string, number>>(new Map());
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchRestaurant();
+  }, []);
+
+  const fetchRestaurant = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: role } = await supabase
+        .from("user_roles")
+        .select("restaurant_id")
+        .eq("user_id", user.id)
+        .limit(1)
+        .maybeSingle();
+      if (!role) return;
+
+      setRestaurantId(role.restaurant_id);
+      await fetchCategories(role.restaurant_id);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      toast.error("Erreur lors du chargement des catégories");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async (id: string) => {
+    const [menuCategories, { data: dishes }] = await Promise.all([
+      fetchMenuCategories(id),
+      supabase.from("dishes").select("category").eq("restaurant_id", id),
+    ]);
+
+    const counts = new Map<string, number>();
+    (dishes || []).forEach((dish) => counts.set(dish.category, (counts.get(dish.category) || 0) + 1));
+    setCategories(menuCategories);
+    setDishCounts(counts);
+  };
+
+  // Names are unique per restaurant, so a new row gets the first free one
+  const getNewCategoryName = () => {
+    const taken = new Set(categories.map((category) => category.name));
+    let name = "Nouvelle catégorie";
+    for (let index = 2; taken.has(name); index++) name = `Nouvelle catégorie ${index}`;
+    return name;
+  };
+
+  const addCategory = async () => {
+    if (!restaurantId) return;
+    const { error } = await supabase
+      .from("categories")
+      .insert({ restaurant_id: restaurantId, name: getNewCategoryName(), display_order: categories.length });
+    if (error) toast.error(error.message);
+    else fetchCategories(restaurantId);
+  };
+
+  const updateCategory = async (category: MenuCategory, changes: TablesUpdate<"categories">) => {
+    if (!restaurantId) return;
+    const { error } = await supabase.from("categories").update(changes).eq("id", category.id);
+    if (error) toast.error(error.message);
+    fetchCategories(restaurantId);
+  };
+
+  const renameCategory = (category: MenuCategory, input: HTMLInputElement) => {
+    const trimmed = input.value.trim();
+    if (!trimmed || trimmed === category.name) return;
+    if (categories.some((other) => other.name === trimmed)) {
+      toast.error(`La catégorie « ${trimmed} » existe déjà`);
+      input.value = category.name;
+      return;
+    }
+    // The dishes and option groups follow, see the rename_category trigger
+    updateCategory(category, { name: trimmed });
+  };
+
+  const deleteCategory = async (category: MenuCategory) => {
+    if (!restaurantId) return;
+    if (!confirm(`Supprimer la catégorie « ${category.name} » ?`)) return;
+    const { error } = await supabase.from("categories").delete().eq("id", category.id);
+    if (error) toast.error(error.message);
+    else fetchCategories(restaurantId);
+  };
+
+  const dropCategory = async (targetIndex: number) => {
+    if (!restaurantId || draggedIndex === null || draggedIndex === targetIndex) return;
+
+    const reordered = [...categories];
+    const [moved] = reordered.splice(draggedIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    setCategories(reordered);
+    setDraggedIndex(null);
+
+    const results = await Promise.all(
+      reordered
+        .map((category, position) => ({ category, position }))
+        .filter(({ category, position }) => category.display_order !== position)
+        .map(({ category, position }) =>
+          supabase.from("categories").update({ display_order: position }).eq("id", category.id)
+        )
+    );
+    const failed = results.find((result) => result.error);
+    if (failed) toast.error(failed.error!.message);
+    fetchCategories(restaurantId);
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Chargement...</div>;
+  }
+
+  return (
+    <div className="space-y-4 max-w-3xl">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Catégories</h2>
+        <Button onClick={addCategory} disabled={!restaurantId}>
+          <Plus className="h-4 w-4 mr-2" />
+          Catégorie
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ordre du menu</CardTitle>
+          <CardDescription>
+            Glissez les catégories pour les réordonner. Les catégories vides ne sont pas affichées aux clients.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {categories.length === 0 && <p className="text-muted-foreground">Aucune catégorie</p>}
+          {categories.map((category, index) => {
+            const dishCount = dishCounts.get(category.name) || 0;
+            const hours = formatVisibilityWindow(category);
+
+            return (
+              <div
+                key={category.id}
+                draggable
+                onDragStart={() => setDraggedIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => dropCategory(index)}
+                onDragEnd={() => setDraggedIndex(null)}
+                className={cn(
+                  "flex flex-wrap items-center gap-2 border rounded p-2",
+                  draggedIndex === index && "opacity-50",
+                  !category.is_visible && "bg-muted"
+                )}
+              >
+                <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                <Input
+                  key={`emoji-${category.id}-${category.emoji}`}
+                  defaultValue={category.emoji ?? ""}
+                  placeholder="🍽️"
+                  className="w-14 text-center"
+                  onBlur={(e) =>
+                    e.target.value !== (category.emoji ?? "") &&
+                    updateCategory(category, { emoji: e.target.value || null })
+                  }
+                />
+                <Input
+                  key={`name-${category.id}-${category.name}`}
+                  defaultValue={category.name}
+                  className="flex-1 min-w-40"
+                  onBlur={(e) => renameCategory(category, e.target)}
+                />
+                <Badge variant="outline">{dishCount} plat(s)</Badge>
+                <Input
+                  type="time"
+                  title="Visible à partir de"
+                  className="w-28"
+                  defaultValue={category.visible_from?.slice(0, 5) ?? ""}
+                  key={`from-${category.id}-${category.visible_from}`}
+                  onBlur={(e) =>
+                    e.target.value !== (category.visible_from?.slice(0, 5) ?? "") &&
+                    updateCategory(category, { visible_from: e.target.value || null })
+                  }
+                />
+                <Input
+                  type="time"
+                  title="Visible jusqu'à"
+                  className="w-28"
+                  defaultValue={category.visible_until?.slice(0, 5) ?? ""}
+                  key={`until-${category.id}-${category.visible_until}`}
+                  onBlur={(e) =>
+                    e.target.value !== (category.visible_until?.slice(0, 5) ?? "") &&
+                    updateCategory(category, { visible_until: e.target.value || null })
+                  }
+                />
+                <Switch
+                  checked={category.is_visible}
+                  onCheckedChange={(checked) => updateCategory(category, { is_visible: checked })}
+                  title={hours ? `Visible ${hours}` : "Visible"}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={dishCount > 0}
+                  title={dishCount > 0 ? "Déplacez d'abord ses plats" : "Supprimer"}
+                  onClick={() => deleteCategory(category)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { addDays, format, startOfDay } from "date-fns";
+import { getProviderName } from "@/lib/payments";
+import type { TaxedOrder } from "@/lib/tax";
+import TaxBreakdown from "@/components/TaxBreakdown";
+
+interface DayTotals {
+  orderCount: number;
+  cancelledCount: number;
+  sales: number;
+  serviceCharge: number;
+  tips: number;
+  total: number;
+}
+
+const emptyTotals: DayTotals = { orderCount: 0, cancelledCount: 0, sales: 0, serviceCharge: 0, tips: 0, total: 0 };
+
+export default function DailyReport() {
+  const [day, setDay] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [totals, setTotals] = useState<DayTotals>(emptyTotals);
+  const [byProvider, setByProvider] = useState<Array<{ provider: string; amount: number }>>([]);
+  const [refunds, setRefunds] = useState<Array<{ amount: number; reason: string }>>([]);
+  const [taxedOrders, setTaxedOrders] = useState<TaxedOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReport();
+  }, [day]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    // The day as seen by the restaurant, i.e. in the browser's time zone
+    const from = startOfDay(new Date(`${day}T00:00:00`));
+    const to = addDays(from, 1);
+
+    try {
+      const [ordersResult, paymentsResult, refundsResult] = await Promise.all([
+        supabase
+          .from("orders")
+          .select("status, total, tip, service_charge, order_items (subtotal, tax_rate, tax_amount)")
+          // Voided lines are already out of the order totals
+          .neq("order_items.status", "voided")
+          .gte("created_at", from.toISOString())
+          .lt("created_at", to.toISOString()),
+        supabase
+          .from("payments")
+          .select("amount, provider")
+          .eq("status", "paid")
+          .gte("paid_at", from.toISOString())
+          .lt("paid_at", to.toISOString()),
+        // Refunds count on the day they're given, whenever the payment was
+        supabase
+          .from("refunds")
+          .select("amount, reason")
+          .eq("status", "completed")
+          .gte("completed_at", from.toISOString())
+          .lt("completed_at", to.toISOString()),
+      ]);
+
+      if (ordersResult.error) throw ordersResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (refundsResult.error) throw refundsResult.error;
+
+      setTotals(
+        (ordersResult.data || []).reduce(
+          (acc, order) => ({
+            orderCount: acc.orderCount + (order.status === "cancelled" ? 0 : 1),
+            cancelledCount: acc.cancelledCount + (order.status === "cancelled" ? 1 : 0),
+            sales: acc.sales + Number(order.total) - Number(order.tip) - Number(order.service_charge),
+            serviceCharge: acc.serviceCharge + Number(order.service_charge),
+            tips: acc.tips + Number(order.tip),
+            total: acc.total + Number(order.total),
+          }),
+          emptyTotals
+        )
+      );
+
+      setTaxedOrders(ordersResult.data || []);
+
+      const providers = new Map<string, number>();
+      (paymentsResult.data || []).forEach((payment) => {
+        const name = getProviderName(payment.provider);
+        providers.set(name, (providers.get(name) || 0) + Number(payment.amount));
+      });
+      setByProvider([...providers].map(([provider, amount]) => ({ provider, amount })));
+      setRefunds(refundsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      toast.error("Erreur lors du chargement du rapport");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const collected = byProvider.reduce((sum, { amount }) => sum + amount, 0);
+  const refunded = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+  const rows: Array<[string, number]> = [
+    ["Ventes (plats)", totals.sales],
+    ["Service", totals.serviceCharge],
+    ["Pourboires", totals.tips],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h2 className="text-2xl font-bold">Rapport de fin de journée</h2>
+        <div>
+          <Label htmlFor="report-day">Jour</Label>
+          <Input
+            id="report-day"
+            type="date"
+            value={day}
+            onChange={(e) => e.target.value && setDay(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">Chargement...</div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>{totals.orderCount} commande(s)</CardTitle>
+              {totals.cancelledCount > 0 && (
+                <p className="text-sm text-muted-foreground">{totals.cancelledCount} annulée(s)</p>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {rows.map(([label, amount]) => (
+                <div key={label} className="flex justify-between">
+                  <span>{label}</span>
+                  <span>{amount.toFixed(2)}€</span>
+                </div>
+              ))}
+              <div className="border-t pt-2 flex justify-between font-bold">
+                <span>Total</span>
+                <span>{totals.total.toFixed(2)}€</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>TVA collectée</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {taxedOrders.length === 0 ? (
+                <p className="text-muted-foreground">Aucune commande ce jour</p>
+              ) : (
+                <TaxBreakdown orders={taxedOrders} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Encaissements</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {byProvider.length === 0 ? (
+                <p className="text-muted-foreground">Aucun paiement ce jour</p>
+              ) : (
+                byProvider.map(({ provider, amount }) => (
+                  <div key={provider} className="flex justify-between">
+                    <span>{provider}</span>
+                    <span>{amount.toFixed(2)}€</span>
+                  </div>
+                ))
+              )}
+              {refunded > 0 && (
+                <>
+                  <div className="flex justify-between text-destructive">
+                    <span>Remboursements ({refunds.length})</span>
+                    <span>−{refunded.toFixed(2)}€</span>
+                  </div>
+                  <div className="border-t pt-2 flex justify-between font-bold">
+                    <span>Encaissé net</span>
+                    <span>{(collected - refunded).toFixed(2)}€</span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {refunds.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Remboursements</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {refunds.map((refund, index) => (
+                  <div key={index} className="flex justify-between gap-4 text-sm">
+                    <span className="text-muted-foreground">{refund.reason}</span>
+                    <span>{Number(refund.amount).toFixed(2)}€</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
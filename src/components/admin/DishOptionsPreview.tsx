@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, RotateCcw } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeGroupRules, fetchDishOptions, type DishOption, type DishOptionGroup } from "@/lib/dish-options";
+import { cn } from "@/lib/utils";
+
+type DishOptionOverride = Tables<"dish_option_overrides">;
+
+// What the guest sees for a dish, with the dish's departures from its category
+export default function DishOptionsPreview() {
+  const [dishes, setDishes] = useState<Array<Pick<Tables<"dishes">, "id" | "name" | "category">>>([]);
+  const [dishId, setDishId] = useState("");
+  const [groups, setGroups] = useState<DishOptionGroup[]>([]);
+  const [overrides, setOverrides] = useState<DishOptionOverride[]>([]);
+
+  const fetchDishes = useCallback(async () => {
+    const { data } = await supabase.from("dishes").select("id, name, category").order("category").order("name");
+    if (data) setDishes(data);
+  }, []);
+
+  const fetchPreview = useCallback(async () => {
+    try {
+      const [resolved, { data, error }] = await Promise.all([
+        fetchDishOptions(dishId, true),
+        supabase.from("dish_option_overrides").select("*").eq("dish_id", dishId),
+      ]);
+      if (error) throw error;
+      setGroups(resolved);
+      setOverrides(data || []);
+    } catch (error) {
+      console.error("Error fetching dish options:", error);
+      toast.error("Impossible de charger les options du plat");
+    }
+  }, [dishId]);
+
+  useEffect(() => {
+    fetchDishes();
+  }, [fetchDishes]);
+
+  useEffect(() => {
+    if (dishId) fetchPreview();
+  }, [dishId, fetchPreview]);
+
+  const saveOverride = async (
+    target: { group_id: string } | { option_id: string },
+    changes: Partial<Pick<DishOptionOverride, "is_hidden" | "price_modifier" | "display_order">>
+  ) => {
+    const { error } = await supabase
+      .from("dish_option_overrides")
+      .upsert(
+        { dish_id: dishId, ...target, ...changes },
+        { onConflict: "group_id" in target ? "dish_id,group_id" : "dish_id,option_id" }
+      );
+    if (error) throw error;
+  };
+
+  const toggleHidden = async (target: { group_id: string } | { option_id: string }, isHidden: boolean) => {
+    try {
+      await saveOverride(target, { is_hidden: isHidden });
+      fetchPreview();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const repriceOption = async (option: DishOption, value: string) => {
+    // An empty field goes back to the category's price
+    const price = value.trim() === "" ? null : parseFloat(value);
+    if (price !== null && (isNaN(price) || price === option.price_modifier)) return;
+
+    try {
+      await saveOverride({ option_id: option.id }, { price_modifier: price });
+      toast.success("Prix mis à jour pour ce plat");
+      fetchPreview();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Writes the position of every group, the dish's own ones included
+  const moveGroup = async (index: number, offset: -1 | 1) => {
+    const reordered = [...groups];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+
+    try {
+      await Promise.all(
+        reordered.map(async (group, position) => {
+          if (group.inherited) return saveOverride({ group_id: group.id }, { display_order: position });
+          const { error } = await supabase
+            .from("dish_option_groups")
+            .update({ display_order: position })
+            .eq("id", group.id);
+          if (error) throw error;
+        })
+      );
+      fetchPreview();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const getParentOptionName = (group: DishOptionGroup) =>
+    groups.flatMap((parent) => parent.options).find((option) => option.id === group.parent_option_id)?.name;
+
+  const hasPriceOverride = (option: DishOption) =>
+    overrides.some((override) => override.option_id === option.id && override.price_modifier !== null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Options par plat</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-sm">
+          <Label>Plat</Label>
+          <Select value={dishId} onValueChange={setDishId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choisir un plat" />
+            </SelectTrigger>
+            <SelectContent>
+              {dishes.map((dish) => (
+                <SelectItem key={dish.id} value={dish.id}>
+                  {dish.category} - {dish.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {dishId && groups.length === 0 && (
+          <p className="text-muted-foreground">Aucune option pour ce plat</p>
+        )}
+
+        {groups.map((group, index) => (
+          <div key={group.id} className={cn("border rounded p-3 space-y-2", group.is_hidden && "opacity-50")}>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold flex-1">{group.name}</span>
+              <Badge variant="outline">{group.inherited ? "Catégorie" : "Plat"}</Badge>
+              {group.parent_option_id && (
+                <Badge variant="outline">Si « {getParentOptionName(group) ?? "option masquée"} »</Badge>
+              )}
+              {group.min_select > 0 && <Badge variant="destructive">Obligatoire</Badge>}
+              {describeGroupRules(group) ? (
+                <Badge variant="secondary">{describeGroupRules(group)}</Badge>
+              ) : (
+                group.allow_multiple && <Badge variant="secondary">Choix multiple</Badge>
+              )}
+              {group.inherited && (
+                <Switch
+                  checked={!group.is_hidden}
+                  onCheckedChange={(checked) => toggleHidden({ group_id: group.id }, !checked)}
+                  title="Proposé pour ce plat"
+                />
+              )}
+              <Button size="icon" variant="ghost" disabled={index === 0} onClick={() => moveGroup(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                disabled={index === groups.length - 1}
+                onClick={() => moveGroup(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {group.options.map((option) => (
+              <div
+                key={option.id}
+                className={cn("flex items-center gap-2 text-sm", option.is_hidden && "opacity-50")}
+              >
+                <span className="flex-1">
+                  {option.name}
+                  {option.max_quantity > 1 && (
+                    <span className="ml-2 text-muted-foreground">(jusqu'à {option.max_quantity})</span>
+                  )}
+                </span>
+                {option.inherited ? (
+                  <>
+                    <Input
+                      key={`${option.id}-${option.price_modifier}`}
+                      type="number"
+                      step="0.01"
+                      className="w-24 h-8"
+                      defaultValue={option.price_modifier}
+                      onBlur={(e) => repriceOption(option, e.target.value)}
+                    />
+                    {hasPriceOverride(option) && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        title="Prix de la catégorie"
+                        onClick={() => repriceOption(option, "")}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Switch
+                      checked={!option.is_hidden}
+                      onCheckedChange={(checked) => toggleHidden({ option_id: option.id }, !checked)}
+                    />
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">+{Number(option.price_modifier).toFixed(2)}€</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,20 +11,22 @@ import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { Plus, Edit, Trash2 } from "lucide-react";
 import type { Tables } from "@/integrations/supabase/types";
+import { formatTaxRate } from "@/lib/tax";
 
 type Dish = Tables<"dishes">;
+type TaxCategory = Tables<"tax_categories">;
+type Station = Tables<"stations">;
+type Category = Tables<"categories">;
 
-interface Category {
-  id: string;
-  name: string;
-  emoji: string | null;
-  display_order: number | null;
-  created_at: string | null;
-}
+// Select items can't have an empty value
+const DEFAULT_TAX_CATEGORY = "default";
+const DEFAULT_STATION = "default";
 
 export default function DishesManagement() {
   const [dishes, setDishes] = useState<Dish[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [taxCategories, setTaxCategories] = useState<TaxCategory[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
   const [editingDish, setEditingDish] = useState<Dish | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
@@ -32,12 +34,16 @@ export default function DishesManagement() {
     description: "",
     price: "",
     category: "",
+    tax_category_id: DEFAULT_TAX_CATEGORY,
+    station_id: DEFAULT_STATION,
     is_available: true,
   });
 
   useEffect(() => {
     fetchDishes();
     fetchCategories();
+    fetchTaxCategories();
+    fetchStations();
   }, []);
 
   const fetchDishes = async () => {
@@ -50,10 +56,26 @@ export default function DishesManagement() {
 
   const fetchCategories = async () => {
     const { data } = await supabase
-      .from("categories" as any)
+      .from("categories")
       .select("*")
       .order("display_order", { ascending: true });
-    if (data) setCategories(data as unknown as Category[]);
+    if (data) setCategories(data);
+  };
+
+  const fetchTaxCategories = async () => {
+    const { data } = await supabase
+      .from("tax_categories")
+      .select("*")
+      .order("rate", { ascending: true });
+    if (data) setTaxCategories(data);
+  };
+
+  const fetchStations = async () => {
+    const { data } = await supabase
+      .from("stations")
+      .select("*")
+      .order("display_order", { ascending: true });
+    if (data) setStations(data);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -65,6 +87,9 @@ export default function DishesManagement() {
         description: formData.description || null,
         price: parseFloat(formData.price),
         category: formData.category,
+        tax_category_id:
+          formData.tax_category_id === DEFAULT_TAX_CATEGORY ? null : formData.tax_category_id,
+        station_id: formData.station_id === DEFAULT_STATION ? null : formData.station_id,
         is_available: formData.is_available,
         restaurant_id: "00000000-0000-0000-0000-000000000000",
       };
@@ -99,6 +124,8 @@ export default function DishesManagement() {
       description: dish.description || "",
       price: Number(dish.price).toString(),
       category: dish.category,
+      tax_category_id: dish.tax_category_id || DEFAULT_TAX_CATEGORY,
+      station_id: dish.station_id || DEFAULT_STATION,
       is_available: dish.is_available ?? true,
     });
     setDialogOpen(true);
@@ -127,6 +154,8 @@ export default function DishesManagement() {
       description: "",
       price: "",
       category: "",
+      tax_category_id: DEFAULT_TAX_CATEGORY,
+      station_id: DEFAULT_STATION,
       is_available: true,
     });
   };
@@ -199,6 +228,44 @@ export default function DishesManagement() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="tax-category">TVA</Label>
+                <Select
+                  value={formData.tax_category_id}
+                  onValueChange={(value) => setFormData({ ...formData, tax_category_id: value })}
+                >
+                  <SelectTrigger id="tax-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_TAX_CATEGORY}>Taux par défaut</SelectItem>
+                    {taxCategories.map((tax) => (
+                      <SelectItem key={tax.id} value={tax.id}>
+                        {tax.name} ({formatTaxRate(tax.rate)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="station">Poste</Label>
+                <Select
+                  value={formData.station_id}
+                  onValueChange={(value) => setFormData({ ...formData, station_id: value })}
+                >
+                  <SelectTrigger id="station">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_STATION}>Poste par défaut</SelectItem>
+                    {stations.map((station) => (
+                      <SelectItem key={station.id} value={station.id}>
+                        {station.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="flex items-center space-x-2">
                 <Switch
                   id="available"
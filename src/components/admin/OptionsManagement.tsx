@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,35 +9,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Plus, Trash2 } from "lucide-react";
+import { GitBranchPlus, Plus, Trash2 } from "lucide-react";
 import type { Tables } from "@/integrations/supabase/types";
+import DishOptionsPreview from "@/components/admin/DishOptionsPreview";
 
+type Category = Tables<"categories">;
+type CategoryOptionGroup = Tables<"category_option_groups">;
+type CategoryOption = Tables<"category_options">;
 
-interface Category {
-  id: string;
-  name: string;
-  emoji: string | null;
-}
-
-interface CategoryOptionGroup {
-  id: string;
-  category: string;
-  name: string;
-  selection_type: string;
-  is_required: boolean;
-  display_order: number;
-  enable_description: boolean | null;
-  created_at: string;
-}
-
-interface CategoryOption {
-  id: string;
-  option_group_id: string;
-  name: string;
-  extra_price: number;
-  display_order: number;
-  created_at: string;
-}
+const emptyGroupForm = {
+  name: "",
+  selection_type: "single",
+  is_required: false,
+  min_select: "",
+  max_select: "",
+  free_quantity: "0",
+  // Empty for a group always shown
+  parent_option_id: "",
+};
 
 export default function OptionsManagement() {
   const [categories, setCategories] = useState<Category[]>([]);
@@ -48,16 +38,13 @@ export default function OptionsManagement() {
   const [editingGroup, setEditingGroup] = useState<CategoryOptionGroup | null>(null);
   const [editingOption, setEditingOption] = useState<CategoryOption | null>(null);
   
-  const [groupForm, setGroupForm] = useState({
-    name: "",
-    selection_type: "single",
-    is_required: false,
-  });
+  const [groupForm, setGroupForm] = useState(emptyGroupForm);
 
   const [optionForm, setOptionForm] = useState({
     option_group_id: "",
     name: "",
     extra_price: "",
+    max_quantity: "1",
   });
 
   useEffect(() => {
@@ -67,24 +54,24 @@ export default function OptionsManagement() {
   }, []);
 
   const fetchCategories = async () => {
-    const { data } = await supabase.from("categories" as any).select("*");
-    if (data) setCategories(data as unknown as Category[]);
+    const { data } = await supabase.from("categories").select("*").order("display_order");
+    if (data) setCategories(data);
   };
 
   const fetchOptionGroups = async () => {
     const { data } = await supabase
-      .from("category_option_groups" as any)
+      .from("category_option_groups")
       .select("*")
       .order("display_order");
-    if (data) setOptionGroups(data as unknown as CategoryOptionGroup[]);
+    if (data) setOptionGroups(data);
   };
 
   const fetchOptions = async () => {
     const { data } = await supabase
-      .from("category_options" as any)
+      .from("category_options")
       .select("*")
       .order("display_order");
-    if (data) setOptions(data as unknown as CategoryOption[]);
+    if (data) setOptions(data);
   };
 
   const handleGroupSubmit = async (e: React.FormEvent) => {
@@ -97,19 +84,24 @@ export default function OptionsManagement() {
         name: groupForm.name,
         selection_type: groupForm.selection_type,
         is_required: groupForm.is_required,
+        // Left empty, the bounds follow "Obligatoire" and the selection type
+        min_select: groupForm.min_select === "" ? null : parseInt(groupForm.min_select),
+        max_select: groupForm.max_select === "" ? null : parseInt(groupForm.max_select),
+        free_quantity: parseInt(groupForm.free_quantity) || 0,
+        parent_option_id: groupForm.parent_option_id || null,
         display_order: 0,
       };
 
       if (editingGroup) {
         const { error } = await supabase
-          .from("category_option_groups" as any)
+          .from("category_option_groups")
           .update(data)
           .eq("id", editingGroup.id);
         if (error) throw error;
         toast.success("Groupe modifié");
       } else {
         const { error } = await supabase
-          .from("category_option_groups" as any)
+          .from("category_option_groups")
           .insert(data);
         if (error) throw error;
         toast.success("Groupe créé");
@@ -131,19 +123,20 @@ export default function OptionsManagement() {
         option_group_id: optionForm.option_group_id,
         name: optionForm.name,
         extra_price: parseFloat(optionForm.extra_price),
+        max_quantity: parseInt(optionForm.max_quantity) || 1,
         display_order: 0,
       };
 
       if (editingOption) {
         const { error } = await supabase
-          .from("category_options" as any)
+          .from("category_options")
           .update(data)
           .eq("id", editingOption.id);
         if (error) throw error;
         toast.success("Option modifiée");
       } else {
         const { error } = await supabase
-          .from("category_options" as any)
+          .from("category_options")
           .insert(data);
         if (error) throw error;
         toast.success("Option créée");
@@ -159,11 +152,7 @@ export default function OptionsManagement() {
 
   const resetGroupForm = () => {
     setEditingGroup(null);
-    setGroupForm({
-      name: "",
-      selection_type: "single",
-      is_required: false,
-    });
+    setGroupForm(emptyGroupForm);
   };
 
   const resetOptionForm = () => {
@@ -172,13 +161,49 @@ export default function OptionsManagement() {
       option_group_id: "",
       name: "",
       extra_price: "",
+      max_quantity: "1",
     });
   };
 
+  // The group and the groups nested under its options, at any depth
+  const getSubtreeGroupIds = (groupId: string): string[] => [
+    groupId,
+    ...options
+      .filter((option) => option.option_group_id === groupId)
+      .flatMap((option) => optionGroups.filter((group) => group.parent_option_id === option.id))
+      .flatMap((group) => getSubtreeGroupIds(group.id)),
+  ];
+
+  // Options a group can depend on: those of its category, outside its own subtree
+  const getParentChoices = (category: string, groupId?: string) => {
+    const excluded = new Set(groupId ? getSubtreeGroupIds(groupId) : []);
+    return optionGroups
+      .filter((group) => group.category === category && !excluded.has(group.id))
+      .flatMap((group) =>
+        options.filter((option) => option.option_group_id === group.id).map((option) => ({ group, option }))
+      );
+  };
+
+  const openSubgroupDialog = (parent: CategoryOptionGroup, option: CategoryOption) => {
+    setEditingGroup(null);
+    setSelectedCategory(parent.category);
+    setGroupForm({ ...emptyGroupForm, parent_option_id: option.id });
+    setDialogOpen(true);
+  };
+
+  const moveGroup = async (group: CategoryOptionGroup, parentOptionId: string | null) => {
+    const { error } = await supabase
+      .from("category_option_groups")
+      .update({ parent_option_id: parentOptionId })
+      .eq("id", group.id);
+    if (error) toast.error(error.message);
+    else fetchOptionGroups();
+  };
+
   const deleteGroup = async (id: string) => {
     if (!confirm("Supprimer ce groupe ?")) return;
     const { error } = await supabase
-      .from("category_option_groups" as any)
+      .from("category_option_groups")
       .delete()
       .eq("id", id);
     if (error) toast.error(error.message);
@@ -191,7 +216,7 @@ export default function OptionsManagement() {
   const deleteOption = async (id: string) => {
     if (!confirm("Supprimer cette option ?")) return;
     const { error } = await supabase
-      .from("category_options" as any)
+      .from("category_options")
       .delete()
       .eq("id", id);
     if (error) toast.error(error.message);
@@ -201,6 +226,90 @@ export default function OptionsManagement() {
     }
   };
 
+  // A group card, with the groups each of its options opens nested below it
+  const renderGroup = (group: CategoryOptionGroup): JSX.Element => (
+    <Card key={group.id}>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>
+            {group.category} - {group.name}
+            {group.free_quantity > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {group.free_quantity} inclus
+              </Badge>
+            )}
+          </span>
+          <div className="flex gap-2">
+            <Select
+              value={group.parent_option_id ?? "none"}
+              onValueChange={(value) => moveGroup(group, value === "none" ? null : value)}
+            >
+              <SelectTrigger className="w-56 text-sm font-normal" title="Affiché si">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Toujours affiché</SelectItem>
+                {getParentChoices(group.category, group.id).map(({ group: parent, option }) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    Si {parent.name} : {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="destructive" onClick={() => deleteGroup(group.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {options
+            .filter((opt) => opt.option_group_id === group.id)
+            .map((option) => (
+              <div key={option.id} className="space-y-2">
+                <div className="flex items-center justify-between p-2 border rounded">
+                  <span>
+                    {option.name}
+                    {option.max_quantity > 1 && (
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        (jusqu'à {option.max_quantity})
+                      </span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">
+                      +{Number(option.extra_price).toFixed(2)}€
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Ajouter un choix affiché avec cette option"
+                      onClick={() => openSubgroupDialog(group, option)}
+                    >
+                      <GitBranchPlus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteOption(option.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {optionGroups.some((child) => child.parent_option_id === option.id) && (
+                  <div className="ml-6 pl-4 border-l-2 space-y-2">
+                    {optionGroups.filter((child) => child.parent_option_id === option.id).map(renderGroup)}
+                  </div>
+                )}
+              </div>
+            ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -220,7 +329,14 @@ export default function OptionsManagement() {
               <form onSubmit={handleGroupSubmit} className="space-y-4">
                 <div>
                   <Label>Catégorie</Label>
-                  <Select value={selectedCategory} onValueChange={setSelectedCategory} required>
+                  <Select
+                    value={selectedCategory}
+                    onValueChange={(value) => {
+                      setSelectedCategory(value);
+                      setGroupForm({ ...groupForm, parent_option_id: "" });
+                    }}
+                    required
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Choisir" />
                     </SelectTrigger>
@@ -241,6 +357,27 @@ export default function OptionsManagement() {
                     required
                   />
                 </div>
+                <div>
+                  <Label>Affiché si</Label>
+                  <Select
+                    value={groupForm.parent_option_id || "none"}
+                    onValueChange={(value) =>
+                      setGroupForm({ ...groupForm, parent_option_id: value === "none" ? "" : value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Toujours affiché</SelectItem>
+                      {getParentChoices(selectedCategory).map(({ group, option }) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          Si {group.name} : {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div>
                   <Label>Type de sélection</Label>
                   <Select
@@ -265,6 +402,37 @@ export default function OptionsManagement() {
                   />
                   <Label>Obligatoire</Label>
                 </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label>Minimum</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder={groupForm.is_required ? "1" : "0"}
+                      value={groupForm.min_select}
+                      onChange={(e) => setGroupForm({ ...groupForm, min_select: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Maximum</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder={groupForm.selection_type === "single" ? "1" : "Illimité"}
+                      value={groupForm.max_select}
+                      onChange={(e) => setGroupForm({ ...groupForm, max_select: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Inclus</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={groupForm.free_quantity}
+                      onChange={(e) => setGroupForm({ ...groupForm, free_quantity: e.target.value })}
+                    />
+                  </div>
+                </div>
                 <Button type="submit" className="w-full">Créer</Button>
               </form>
             </DialogContent>
@@ -321,6 +489,16 @@ export default function OptionsManagement() {
                     required
                   />
                 </div>
+                <div>
+                  <Label>Quantité maximale</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={optionForm.max_quantity}
+                    onChange={(e) => setOptionForm({ ...optionForm, max_quantity: e.target.value })}
+                    required
+                  />
+                </div>
                 <Button type="submit" className="w-full">Créer</Button>
               </form>
             </DialogContent>
@@ -329,49 +507,10 @@ export default function OptionsManagement() {
       </div>
 
       <div className="grid gap-4">
-        {optionGroups.map((group) => (
-          <Card key={group.id}>
-            <CardHeader>
-              <CardTitle className="flex items-center justify-between">
-                <span>
-                  {group.category} - {group.name}
-                </span>
-                <div className="flex gap-2">
-                  <Button size="sm" variant="destructive" onClick={() => deleteGroup(group.id)}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                {options
-                  .filter((opt) => opt.option_group_id === group.id)
-                  .map((option) => (
-                    <div
-                      key={option.id}
-                      className="flex items-center justify-between p-2 border rounded"
-                    >
-                      <span>{option.name}</span>
-                      <div className="flex items-center gap-2">
-                        <span className="text-sm text-muted-foreground">
-                          +{Number(option.extra_price).toFixed(2)}€
-                        </span>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => deleteOption(option.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  ))}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+        {optionGroups.filter((group) => !group.parent_option_id).map(renderGroup)}
       </div>
+
+      <DishOptionsPreview />
     </div>
   );
 }
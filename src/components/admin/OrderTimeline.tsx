@@ -0,0 +1,46 @@
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import type { Tables } from "@/integrations/supabase/types";
+import { orderStatusLabels } from "@/lib/order-status";
+
+type OrderStatusEvent = Tables<"order_status_events">;
+
+const actorRoleLabels: Record<NonNullable<OrderStatusEvent["actor_role"]>, string> = {
+  admin: "Administrateur",
+  manager: "Gérant",
+  server: "Serveur",
+};
+
+const getActorLabel = (event: OrderStatusEvent) => {
+  if (event.actor_role) return actorRoleLabels[event.actor_role];
+  // Guests are signed in anonymously, backfilled events have no actor at all
+  return event.actor_id ? "Client" : "Système";
+};
+
+interface OrderTimelineProps {
+  events: OrderStatusEvent[];
+}
+
+export default function OrderTimeline({ events }: OrderTimelineProps) {
+  const sorted = [...events].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return (
+    <ol className="space-y-2 border-l pl-4 text-sm">
+      {sorted.map((event) => (
+        <li key={event.id}>
+          <p>
+            <span className="text-muted-foreground mr-2">
+              {format(new Date(event.created_at), "dd/MM HH:mm", { locale: fr })}
+            </span>
+            {event.previous_status && `${orderStatusLabels[event.previous_status]} → `}
+            <span className="font-medium">{orderStatusLabels[event.status]}</span>
+          </p>
+          <p className="text-xs text-muted-foreground">
+            par {getActorLabel(event)}
+            {event.reason && ` · ${event.reason}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,18 +1,32 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { Printer, Download, History, RotateCcw, XCircle, X, Archive } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { fr } from "date-fns/locale";
-
-type OrderStatus = "received" | "preparing" | "ready" | "served" | "paid";
+import { orderStatusColors, orderStatusLabels, type OrderItemStatus, type OrderStatus } from "@/lib/order-status";
+import { isOrderValidationError } from "@/lib/orders";
+import type { Tables } from "@/integrations/supabase/types";
+import { createFullShare, getItemDueAmount, getRemainingAmount, isItemPaid, isPayable, type Payment } from "@/lib/bill-split";
+import BillSplitDialog from "@/components/BillSplitDialog";
+import BillSharesList from "@/components/BillSharesList";
+import PaymentDialog from "@/components/PaymentDialog";
+import RefundDialog from "@/components/admin/RefundDialog";
+import OrderExtras from "@/components/OrderExtras";
+import { fetchReceipt, getReceiptNumber, printReceipt, renderReceipt } from "@/lib/receipts";
+import { downloadBlob } from "@/lib/qr-sheet";
+import OrderTimeline from "@/components/admin/OrderTimeline";
 
 interface Order {
   id: string;
   table_id: string;
   total: number;
+  tip: number;
+  service_charge: number;
   status: OrderStatus;
   created_at: string;
   order_items: Array<{
@@ -20,6 +34,8 @@ interface Order {
     quantity: number;
     unit_price: number;
     subtotal: number;
+    status: OrderItemStatus;
+    void_reason: string | null;
     comment: string | null;
     options_selected: any;
     dishes: {
@@ -29,87 +45,430 @@ interface Order {
   tables: {
     table_number: number;
   };
+  order_status_events: Tables<"order_status_events">[];
+  session_id: string | null;
+  table_sessions: {
+    id: string;
+    status: "open" | "closed";
+    opened_at: string;
+    payments: Payment[];
+  } | null;
 }
 
-const statusColors = {
-  received: "bg-blue-500",
-  preparing: "bg-yellow-500",
-  ready: "bg-green-500",
-  served: "bg-purple-500",
-  paid: "bg-gray-500",
+// All orders of a table session, i.e. one running tab
+interface Tab {
+  key: string;
+  tableNumber: number;
+  session: Order["table_sessions"];
+  orders: Order[];
+  total: number;
+}
+
+const statusOrder: OrderStatus[] = ["received", "preparing", "ready", "served", "paid"];
+
+const tabLabel = (tab: Tab) => {
+  if (!tab.session) return "Total";
+  return tab.session.status === "closed" ? "Addition réglée" : "Addition en cours";
+};
+
+const groupOrdersByTab = (orders: Order[]): Tab[] => {
+  const tabs = new Map<string, Tab>();
+
+  // Orders are sorted newest first, so tabs end up sorted by latest activity
+  orders.forEach((order) => {
+    const key = order.session_id || order.id;
+    let tab = tabs.get(key);
+    if (!tab) {
+      tab = {
+        key,
+        tableNumber: order.tables.table_number,
+        session: order.table_sessions,
+        orders: [],
+        total: 0,
+      };
+      tabs.set(key, tab);
+    }
+    tab.orders.push(order);
+    tab.total += Number(order.total);
+  });
+
+  return [...tabs.values()];
 };
 
-const statusLabels = {
-  received: "Reçue",
-  preparing: "En préparation",
-  ready: "Prête",
-  served: "Servie",
-  paid: "Payée",
+const ORDER_SELECT = `
+  *,
+  order_items (
+    *,
+    dishes (name)
+  ),
+  tables (table_number),
+  order_status_events (*),
+  table_sessions (id, status, opened_at, payments (*))
+`;
+
+// Older orders are loaded on demand
+const PAGE_SIZE = 30;
+
+const byNewest = (a: Order, b: Order) => b.created_at.localeCompare(a.created_at);
+
+// Replaces the given orders in the list, or adds them if they're new
+const mergeOrders = (current: Order[], fresh: Order[]) => {
+  const ids = new Set(fresh.map((order) => order.id));
+  return [...fresh, ...current.filter((order) => !ids.has(order.id))].sort(byNewest);
 };
 
-export default function OrdersManagement() {
+const updateSessionPayments = (orders: Order[], sessionId: string, update: (payments: Payment[]) => Payment[]) =>
+  orders.map((order) =>
+    order.table_sessions?.id === sessionId
+      ? { ...order, table_sessions: { ...order.table_sessions, payments: update(order.table_sessions.payments) } }
+      : order
+  );
+
+// Paid or cancelled orders whose tab is closed, kept out of the way by default
+const isArchived = (tab: Tab) =>
+  tab.session?.status !== "open" &&
+  tab.orders.every((order) => order.status === "paid" || order.status === "cancelled");
+
+interface OrdersManagementProps {
+  // Going back a step is reserved to admins, the server refuses it otherwise
+  canReopen: boolean;
+  // Refunds are for admins and managers
+  canRefund: boolean;
+}
+
+export default function OrdersManagement({ canReopen, canRefund }: OrdersManagementProps) {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [splitTab, setSplitTab] = useState<Tab | null>(null);
+  const [payingShare, setPayingShare] = useState<Payment | null>(null);
+  const [refundingShare, setRefundingShare] = useState<Payment | null>(null);
+  // Creation date of the oldest order loaded, i.e. how far back the list goes
+  const oldestRef = useRef<string | null>(null);
+  // Latest list for the realtime handlers, which are only set up once
+  const ordersRef = useRef<Order[]>([]);
 
   useEffect(() => {
-    fetchOrders();
-    
-    const channel = supabase
-      .channel('orders-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'orders'
-        },
-        () => fetchOrders()
-      )
-      .subscribe();
+    ordersRef.current = orders;
+  }, [orders]);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+  const reloadOrders = useCallback(async () => {
+    try {
+      let query = supabase.from("orders").select(ORDER_SELECT).order("created_at", { ascending: false });
+      // Keeps every page loaded so far, otherwise starts with the first one
+      query = oldestRef.current ? query.gte("created_at", oldestRef.current) : query.limit(PAGE_SIZE);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      if (!oldestRef.current) {
+        setHasMore((data || []).length === PAGE_SIZE);
+        oldestRef.current = data?.[data.length - 1]?.created_at ?? null;
+      }
+      setOrders(data || []);
+    } catch (error: any) {
+      toast.error("Erreur lors du chargement des commandes");
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
-  const fetchOrders = async () => {
+  const loadMoreOrders = async () => {
+    if (!oldestRef.current) return;
+
+    setLoadingMore(true);
     try {
       const { data, error } = await supabase
         .from("orders")
-        .select(`
-          *,
-          order_items (
-            *,
-            dishes (name)
-          ),
-          tables (table_number)
-        `)
-        .order("created_at", { ascending: false });
+        .select(ORDER_SELECT)
+        .lt("created_at", oldestRef.current)
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE);
 
       if (error) throw error;
-      setOrders(data || []);
-    } catch (error: any) {
+      if (data.length > 0) oldestRef.current = data[data.length - 1].created_at;
+      setHasMore(data.length === PAGE_SIZE);
+      setOrders((prev) => mergeOrders(prev, data));
+    } catch (error) {
+      console.error("Error fetching older orders:", error);
       toast.error("Erreur lors du chargement des commandes");
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const refreshOrder = useCallback(async (orderId: string) => {
+    const { data, error } = await supabase.from("orders").select(ORDER_SELECT).eq("id", orderId).maybeSingle();
+    if (error) {
+      console.error("Error fetching order:", error);
+      return;
+    }
+    if (data) setOrders((prev) => mergeOrders(prev, [data]));
+  }, []);
+
+  const refreshSession = async (sessionId: string) => {
+    const { data, error } = await supabase.from("orders").select(ORDER_SELECT).eq("session_id", sessionId);
+    if (error) {
+      console.error("Error fetching tab:", error);
+      return;
+    }
+    setOrders((prev) => mergeOrders(prev, data));
+  };
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("orders-changes")
+      // New orders come with their lines, table and session, hence the fetch
+      .on<Tables<"orders">>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "orders" },
+        (payload) => refreshOrder(payload.new.id)
+      )
+      .on<Tables<"orders">>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "orders" },
+        (payload) => {
+          const order = payload.new;
+          setOrders((prev) =>
+            prev.map((current) =>
+              current.id === order.id && current.session_id === order.session_id ? { ...current, ...order } : current
+            )
+          );
+          // Moved to another tab, its session has to be fetched along
+          if (payload.old.session_id !== order.session_id) refreshOrder(order.id);
+        }
+      )
+      .on<Tables<"orders">>(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "orders" },
+        (payload) => setOrders((prev) => prev.filter((order) => order.id !== payload.old.id))
+      )
+      .on<Tables<"order_items">>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "order_items" },
+        (payload) => {
+          const item = payload.new;
+          const order = ordersRef.current.find((current) => current.id === item.order_id);
+          // Lines inserted with their order are already there, only later additions need the dish name
+          if (order && !order.order_items.some((current) => current.id === item.id)) refreshOrder(order.id);
+        }
+      )
+      .on<Tables<"order_items">>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "order_items" },
+        (payload) => {
+          const item = payload.new;
+          setOrders((prev) =>
+            prev.map((order) =>
+              order.id === item.order_id
+                ? {
+                    ...order,
+                    order_items: order.order_items.map((current) =>
+                      current.id === item.id ? { ...current, ...item } : current
+                    ),
+                  }
+                : order
+            )
+          );
+        }
+      )
+      .on<Tables<"order_status_events">>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "order_status_events" },
+        (payload) => {
+          const event = payload.new;
+          setOrders((prev) =>
+            prev.map((order) =>
+              order.id === event.order_id && !order.order_status_events.some((current) => current.id === event.id)
+                ? { ...order, order_status_events: [...order.order_status_events, event] }
+                : order
+            )
+          );
+        }
+      )
+      .on<Tables<"table_sessions">>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "table_sessions" },
+        (payload) => {
+          const session = payload.new;
+          setOrders((prev) =>
+            prev.map((order) =>
+              order.table_sessions?.id === session.id
+                ? { ...order, table_sessions: { ...order.table_sessions, status: session.status } }
+                : order
+            )
+          );
+        }
+      )
+      .on<Payment>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "payments" },
+        (payload) =>
+          setOrders((prev) =>
+            updateSessionPayments(prev, payload.new.session_id, (payments) =>
+              payments.some((payment) => payment.id === payload.new.id) ? payments : [...payments, payload.new]
+            )
+          )
+      )
+      .on<Payment>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "payments" },
+        (payload) =>
+          setOrders((prev) =>
+            updateSessionPayments(prev, payload.new.session_id, (payments) =>
+              payments.map((payment) => (payment.id === payload.new.id ? payload.new : payment))
+            )
+          )
+      )
+      // Delete events only carry the id
+      .on<Payment>(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "payments" },
+        (payload) =>
+          setOrders((prev) =>
+            prev.map((order) =>
+              order.table_sessions?.payments.some((payment) => payment.id === payload.old.id)
+                ? {
+                    ...order,
+                    table_sessions: {
+                      ...order.table_sessions,
+                      payments: order.table_sessions.payments.filter((payment) => payment.id !== payload.old.id),
+                    },
+                  }
+                : order
+            )
+          )
+      )
+      .subscribe((status) => {
+        // Events missed while disconnected are never replayed, so the list is
+        // reloaded each time the channel (re)connects, the first time included
+        if (status === "SUBSCRIBED") reloadOrders();
+        else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.error("Orders realtime channel:", status);
+          reloadOrders();
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [reloadOrders, refreshOrder]);
+
+  const handlePrintReceipt = async (orderId: string) => {
+    try {
+      printReceipt(await fetchReceipt(orderId));
+    } catch (error) {
+      console.error("Error printing receipt:", error);
+      toast.error("Impossible d'imprimer le reçu");
     }
   };
 
-  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
+  // Raw job for thermal printers, to send with the printer's own tool
+  const handleDownloadTicket = async (orderId: string) => {
     try {
-      const { error } = await supabase
-        .from("orders")
-        .update({ status: newStatus })
-        .eq("id", orderId);
+      const receipt = await fetchReceipt(orderId);
+      downloadBlob(renderReceipt(receipt, "escpos"), `ticket-${getReceiptNumber(receipt)}.bin`);
+    } catch (error) {
+      console.error("Error generating ticket:", error);
+      toast.error("Impossible de générer le ticket");
+    }
+  };
+
+  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus, reason?: string) => {
+    try {
+      const { error } = await supabase.rpc("set_order_status", {
+        _order_id: orderId,
+        _status: newStatus,
+        _reason: reason,
+      });
 
       if (error) throw error;
       toast.success("Statut mis à jour");
-      fetchOrders();
+      refreshOrder(orderId);
     } catch (error: any) {
-      toast.error("Erreur lors de la mise à jour");
+      toast.error(isOrderValidationError(error) ? error.message : "Erreur lors de la mise à jour");
+    }
+  };
+
+  const reopenOrder = (order: Order) => {
+    const previous = statusOrder[statusOrder.indexOf(order.status) - 1];
+    const reason = prompt(`Motif de la réouverture (retour à « ${orderStatusLabels[previous]} ») :`);
+    if (!reason?.trim()) return;
+    updateOrderStatus(order.id, previous, reason);
+  };
+
+  const closeTab = async (sessionId: string) => {
+    if (!confirm("Clôturer l'addition de cette table ?")) return;
+
+    const { error } = await supabase
+      .from("table_sessions")
+      .update({ status: "closed", closed_at: new Date().toISOString() })
+      .eq("id", sessionId);
+
+    if (error) toast.error("Erreur lors de la clôture");
+    else {
+      toast.success("Addition clôturée");
+      refreshSession(sessionId);
+    }
+  };
+
+  const collectTab = async (sessionId: string) => {
+    try {
+      setPayingShare(await createFullShare(sessionId));
+      refreshSession(sessionId);
+    } catch (error) {
+      console.error("Error preparing payment:", error);
+      toast.error("Erreur lors de la préparation du paiement");
+    }
+  };
+
+  const cancelOrder = async (order: Order) => {
+    const reason = prompt("Motif de l'annulation de la commande :");
+    if (!reason?.trim()) return;
+
+    const { error } = await supabase.rpc("cancel_order", { _order_id: order.id, _reason: reason });
+    if (error) {
+      toast.error(isOrderValidationError(error) ? error.message : "Erreur lors de l'annulation");
+      return;
     }
+    toast.success("Commande annulée");
+    refreshOrder(order.id);
+  };
+
+  const voidItem = async (order: Order, item: Order["order_items"][number]) => {
+    const reason = prompt(`Motif de l'annulation de « ${item.quantity}x ${item.dishes.name} » :`);
+    if (!reason?.trim()) return;
+
+    const { error } = await supabase.rpc("void_order_item", { _item_id: item.id, _reason: reason });
+    if (error) {
+      toast.error(isOrderValidationError(error) ? error.message : "Erreur lors de l'annulation");
+      return;
+    }
+    toast.success("Plat retiré de la commande");
+    refreshOrder(order.id);
+  };
+
+  const getUnpaidItems = (tab: Tab) => {
+    const payments = tab.session?.payments || [];
+    return tab.orders.flatMap((order) => {
+      // Voided lines are no longer part of the order's total
+      const liveOrder = { ...order, order_items: order.order_items.filter((item) => item.status !== "voided") };
+      return liveOrder.order_items
+        .filter((item) => !isItemPaid(item.id, payments))
+        .map((item) => ({
+          id: item.id,
+          name: `${item.quantity}x ${item.dishes.name}`,
+          subtotal: getItemDueAmount(item.subtotal, liveOrder),
+        }));
+    });
   };
 
+  const allTabs = groupOrdersByTab(orders);
+  const archivedCount = allTabs.filter(isArchived).length;
+  const tabs = showArchived ? allTabs : allTabs.filter((tab) => !isArchived(tab));
+
   if (loading) {
     return <div className="text-center py-8">Chargement...</div>;
   }
@@ -118,83 +477,246 @@ export default function OrdersManagement() {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Gestion des Commandes</h2>
-        <Badge variant="secondary">{orders.length} commandes</Badge>
+        <div className="flex items-center gap-2">
+          {archivedCount > 0 && (
+            <Button size="sm" variant="outline" onClick={() => setShowArchived(!showArchived)}>
+              <Archive className="h-4 w-4 mr-2" />
+              {showArchived ? "Masquer les archives" : `Archives (${archivedCount})`}
+            </Button>
+          )}
+          <Badge variant="secondary">{orders.length} commandes</Badge>
+        </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {orders.map((order) => (
-          <Card key={order.id}>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-lg">
-                  Table {order.tables.table_number}
-                </CardTitle>
-                <Badge className={statusColors[order.status]}>
-                  {statusLabels[order.status]}
-                </Badge>
-              </div>
-              <p className="text-sm text-muted-foreground">
-                {formatDistanceToNow(new Date(order.created_at), {
-                  addSuffix: true,
-                  locale: fr,
-                })}
-              </p>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                {order.order_items.map((item) => (
-                  <div key={item.id} className="flex justify-between text-sm">
-                    <span>
-                      {item.quantity}x {item.dishes.name}
-                    </span>
-                    <span>{item.subtotal.toFixed(2)}€</span>
-                  </div>
-                ))}
-              </div>
-              
-              <div className="border-t pt-2 flex justify-between font-bold">
-                <span>Total</span>
-                <span>{order.total.toFixed(2)}€</span>
-              </div>
-
-              <div className="flex flex-wrap gap-2">
-                {order.status === "received" && (
-                  <Button
-                    size="sm"
-                    onClick={() => updateOrderStatus(order.id, "preparing")}
-                  >
-                    En préparation
-                  </Button>
-                )}
-                {order.status === "preparing" && (
-                  <Button
-                    size="sm"
-                    onClick={() => updateOrderStatus(order.id, "ready")}
-                  >
-                    Prête
-                  </Button>
-                )}
-                {order.status === "ready" && (
-                  <Button
-                    size="sm"
-                    onClick={() => updateOrderStatus(order.id, "served")}
-                  >
-                    Servie
+      {tabs.length === 0 && (
+        <p className="text-center text-muted-foreground py-8">Aucune commande en cours</p>
+      )}
+
+      {tabs.map((tab) => (
+        <section key={tab.key} className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2 border-b pb-2">
+            <h3 className="text-xl font-semibold">Table {tab.tableNumber}</h3>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-muted-foreground">
+                {tab.orders.length} commande(s)
+              </span>
+              <span className="font-bold">
+                {tabLabel(tab)} :{" "}
+                {tab.total.toFixed(2)}€
+              </span>
+              {tab.session?.status === "open" && (
+                <>
+                  {!tab.session.payments.some(isPayable) && (
+                    <Button size="sm" onClick={() => collectTab(tab.session!.id)}>
+                      Encaisser
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => setSplitTab(tab)}>
+                    Partager
                   </Button>
-                )}
-                {order.status === "served" && (
-                  <Button
-                    size="sm"
-                    onClick={() => updateOrderStatus(order.id, "paid")}
-                  >
-                    Payée
+                  <Button size="sm" variant="outline" onClick={() => closeTab(tab.session!.id)}>
+                    Clôturer
                   </Button>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {tab.session && tab.session.payments.length > 0 && (
+            <div className="max-w-md">
+              <p className="font-medium mb-1">
+                Reste à payer : {getRemainingAmount(tab.total, tab.session.payments).toFixed(2)}€
+              </p>
+              <BillSharesList
+                payments={tab.session.payments}
+                onPay={setPayingShare}
+                payLabel="Encaisser"
+                onRefund={canRefund ? setRefundingShare : undefined}
+              />
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {tab.orders.map((order) => (
+              <Card key={order.id}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg font-mono">
+                      #{order.id.slice(0, 8).toUpperCase()}
+                    </CardTitle>
+                    <Badge className={orderStatusColors[order.status]}>
+                      {orderStatusLabels[order.status]}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(order.created_at), {
+                      addSuffix: true,
+                      locale: fr,
+                    })}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {order.order_items.map((item) =>
+                      item.status === "voided" ? (
+                        <div key={item.id} className="text-sm text-muted-foreground">
+                          <div className="flex justify-between line-through">
+                            <span>
+                              {item.quantity}x {item.dishes.name}
+                            </span>
+                            <span>{item.subtotal.toFixed(2)}€</span>
+                          </div>
+                          {item.void_reason && <p className="text-xs">Annulé : {item.void_reason}</p>}
+                        </div>
+                      ) : (
+                        <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="flex-1">
+                            {item.quantity}x {item.dishes.name}
+                          </span>
+                          <span>{item.subtotal.toFixed(2)}€</span>
+                          {order.status !== "paid" && order.status !== "cancelled" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              title="Retirer ce plat"
+                              onClick={() => voidItem(order, item)}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )
+                    )}
+                    <OrderExtras serviceCharge={order.service_charge} tip={order.tip} />
+                  </div>
+
+                  <div className="border-t pt-2 flex justify-between font-bold">
+                    <span>Total</span>
+                    <span>{order.total.toFixed(2)}€</span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {order.status === "received" && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateOrderStatus(order.id, "preparing")}
+                      >
+                        En préparation
+                      </Button>
+                    )}
+                    {order.status === "preparing" && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateOrderStatus(order.id, "ready")}
+                      >
+                        Prête
+                      </Button>
+                    )}
+                    {order.status === "ready" && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateOrderStatus(order.id, "served")}
+                      >
+                        Servie
+                      </Button>
+                    )}
+                    {/* Orders of a tab are paid through its shares */}
+                    {order.status === "served" && !order.session_id && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateOrderStatus(order.id, "paid")}
+                      >
+                        Payée
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handlePrintReceipt(order.id)}
+                    >
+                      <Printer className="h-4 w-4 mr-2" />
+                      Reçu
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Ticket ESC/POS"
+                      onClick={() => handleDownloadTicket(order.id)}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {["received", "preparing", "ready"].includes(order.status) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Annuler la commande"
+                        onClick={() => cancelOrder(order)}
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canReopen && order.status !== "received" && order.status !== "cancelled" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Rouvrir"
+                        onClick={() => reopenOrder(order)}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  <Collapsible>
+                    <CollapsibleTrigger asChild>
+                      <Button size="sm" variant="link" className="px-0">
+                        <History className="h-4 w-4 mr-2" />
+                        Historique
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="pt-2">
+                      <OrderTimeline events={order.order_status_events} />
+                    </CollapsibleContent>
+                  </Collapsible>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {hasMore && (
+        <div className="text-center">
+          <Button variant="outline" onClick={loadMoreOrders} disabled={loadingMore}>
+            {loadingMore ? "Chargement..." : "Charger les commandes plus anciennes"}
+          </Button>
+        </div>
+      )}
+
+      {splitTab?.session && (
+        <BillSplitDialog
+          open={!!splitTab}
+          onOpenChange={(open) => !open && setSplitTab(null)}
+          sessionId={splitTab.session.id}
+          items={getUnpaidItems(splitTab)}
+          remaining={getRemainingAmount(splitTab.total, splitTab.session.payments)}
+          onSplit={() => refreshSession(splitTab.session!.id)}
+        />
+      )}
+
+      <PaymentDialog
+        payment={payingShare}
+        onOpenChange={(open) => !open && setPayingShare(null)}
+        allowCash
+        onPaid={() => payingShare && refreshSession(payingShare.session_id)}
+      />
+
+      <RefundDialog
+        payment={refundingShare}
+        onOpenChange={(open) => !open && setRefundingShare(null)}
+        onRefunded={() => refundingShare && refreshSession(refundingShare.session_id)}
+      />
     </div>
   );
 }
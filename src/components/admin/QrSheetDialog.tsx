@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Download, FileText, X } from "lucide-react";
+import {
+  downloadBlob,
+  prepareLogo,
+  renderQrSheetPdf,
+  renderQrSheetSvgs,
+  type QrSheetLayout,
+  type QrSheetTable,
+} from "@/lib/qr-sheet";
+
+interface QrSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tables: QrSheetTable[];
+  restaurantId: string | null;
+}
+
+export default function QrSheetDialog({ open, onOpenChange, tables, restaurantId }: QrSheetDialogProps) {
+  const [layout, setLayout] = useState<QrSheetLayout>("tent");
+  const [restaurantName, setRestaurantName] = useState("");
+  const [logoDataUrl, setLogoDataUrl] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !restaurantId) return;
+
+    supabase
+      .from("restaurants")
+      .select("name")
+      .eq("id", restaurantId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setRestaurantName(data.name);
+      });
+  }, [open, restaurantId]);
+
+  const options = useMemo(
+    () => ({ layout, restaurantName, logoDataUrl }),
+    [layout, restaurantName, logoDataUrl]
+  );
+
+  const pages = useMemo(
+    () => (open && tables.length > 0 ? renderQrSheetSvgs(tables, options) : []),
+    [open, tables, options]
+  );
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setLogoDataUrl(await prepareLogo(file));
+    } catch (error) {
+      toast.error("Logo invalide");
+    }
+  };
+
+  const exportSvg = () => {
+    pages.forEach((svg, index) => {
+      const suffix = pages.length > 1 ? `-${index + 1}` : "";
+      downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `qr-codes-${layout}${suffix}.svg`);
+    });
+  };
+
+  const exportPdf = async () => {
+    setExporting(true);
+    try {
+      const pdf = await renderQrSheetPdf(tables, options);
+      downloadBlob(pdf, `qr-codes-${layout}.pdf`);
+    } catch (error) {
+      toast.error("Erreur lors de la génération du PDF");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Planche de QR codes</DialogTitle>
+          <DialogDescription>
+            {tables.length} table(s) active(s) · format A4
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <Label>Format</Label>
+            <Select value={layout} onValueChange={(value) => setLayout(value as QrSheetLayout)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tent">Chevalet (2 par page)</SelectItem>
+                <SelectItem value="sticker">Stickers (12 par page)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="restaurant-name">Nom du restaurant</Label>
+            <Input
+              id="restaurant-name"
+              value={restaurantName}
+              onChange={(e) => setRestaurantName(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="logo">Logo (facultatif)</Label>
+            <div className="flex gap-2">
+              <Input id="logo" type="file" accept="image/*" onChange={handleLogoChange} />
+              {logoDataUrl && (
+                <Button size="icon" variant="ghost" onClick={() => setLogoDataUrl(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {pages.map((svg, index) => (
+            <img
+              key={index}
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+              alt={`Page ${index + 1}`}
+              className="w-full border rounded shadow-soft"
+            />
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button className="flex-1" onClick={exportPdf} disabled={exporting || pages.length === 0}>
+            <FileText className="h-4 w-4 mr-2" />
+            {exporting ? "Génération..." : "Télécharger le PDF"}
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={exportSvg} disabled={pages.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Télécharger en SVG
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { isOrderValidationError } from "@/lib/orders";
+import type { Payment } from "@/lib/bill-split";
+import { getProviderName, getRefundableAmount, refundShare } from "@/lib/payments";
+
+interface RefundDialogProps {
+  payment: Payment | null;
+  onOpenChange: (open: boolean) => void;
+  onRefunded?: () => void;
+}
+
+export default function RefundDialog({ payment, onOpenChange, onRefunded }: RefundDialogProps) {
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const refundable = payment ? getRefundableAmount(payment) : 0;
+
+  useEffect(() => {
+    if (payment) {
+      setAmount(getRefundableAmount(payment).toFixed(2));
+      setReason("");
+    }
+  }, [payment]);
+
+  const handleRefund = async () => {
+    if (!payment) return;
+
+    const value = Math.round(parseFloat(amount.replace(",", ".")) * 100) / 100;
+    if (!(value > 0 && value <= refundable)) {
+      toast.error(`Le montant doit être compris entre 0,01 et ${refundable.toFixed(2)} €`);
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Indiquez le motif du remboursement");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      // A full refund goes through without an amount, so no cent is left over
+      await refundShare(payment, reason.trim(), value === refundable ? undefined : value);
+      toast.success(`${value.toFixed(2)} € remboursés`);
+      onRefunded?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error refunding payment:", error);
+      toast.error(isOrderValidationError(error) ? (error as Error).message : "Erreur lors du remboursement");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Rembourser {payment?.label}</DialogTitle>
+          <DialogDescription>
+            Réglé {Number(payment?.amount ?? 0).toFixed(2)} € · {getProviderName(payment?.provider ?? null)}
+            {Number(payment?.refunded_amount ?? 0) > 0 &&
+              ` · déjà remboursé ${Number(payment?.refunded_amount).toFixed(2)} €`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Montant (€)</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={refundable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Motif</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="Plat renvoyé, erreur de caisse..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleRefund} disabled={isProcessing}>
+            {isProcessing ? "Remboursement..." : "Rembourser"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,504 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import type { TipPreset } from "@/lib/tips";
+
+type TaxCategory = Tables<"tax_categories">;
+type Station = Tables<"stations">;
+
+// Where restaurants using the app are, France and its overseas territories first
+const TIME_ZONES = [
+  { value: "Europe/Paris", label: "France métropolitaine" },
+  { value: "America/Guadeloupe", label: "Guadeloupe" },
+  { value: "America/Martinique", label: "Martinique" },
+  { value: "America/Cayenne", label: "Guyane" },
+  { value: "Indian/Reunion", label: "La Réunion" },
+  { value: "Indian/Mayotte", label: "Mayotte" },
+  { value: "Pacific/Noumea", label: "Nouvelle-Calédonie" },
+  { value: "Pacific/Tahiti", label: "Polynésie française" },
+  { value: "Europe/Brussels", label: "Belgique" },
+  { value: "Europe/Luxembourg", label: "Luxembourg" },
+  { value: "Europe/Zurich", label: "Suisse" },
+  { value: "America/Toronto", label: "Québec" },
+];
+
+interface Restaurant {
+  id: string;
+  name: string;
+  tip_presets: Json;
+  service_charge_percent: number | null;
+  service_charge_min_guests: number | null;
+  mock_payments_enabled: boolean;
+  timezone: string;
+}
+
+export default function RestaurantSettings() {
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [tipPresets, setTipPresets] = useState<TipPreset[]>([]);
+  const [taxCategories, setTaxCategories] = useState<TaxCategory[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [serviceChargeEnabled, setServiceChargeEnabled] = useState(false);
+  const [serviceChargePercent, setServiceChargePercent] = useState("");
+  const [serviceChargeMinGuests, setServiceChargeMinGuests] = useState("");
+  const [mockPaymentsEnabled, setMockPaymentsEnabled] = useState(false);
+  const [timeZone, setTimeZone] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRestaurant();
+  }, []);
+
+  const fetchRestaurant = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: role } = await supabase
+        .from("user_roles")
+        .select("restaurant_id")
+        .eq("user_id", user.id)
+        .limit(1)
+        .maybeSingle();
+      if (!role) return;
+
+      // Only admins can read restaurants, other roles get nothing back
+      const { data, error } = await supabase
+        .from("restaurants")
+        .select("id, name, tip_presets, service_charge_percent, service_charge_min_guests, mock_payments_enabled, timezone")
+        .eq("id", role.restaurant_id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return;
+
+      setRestaurant(data);
+      setTipPresets((data.tip_presets as unknown as TipPreset[]) || []);
+      setServiceChargeEnabled(data.service_charge_percent !== null);
+      setServiceChargePercent(data.service_charge_percent?.toString() ?? "");
+      setServiceChargeMinGuests(data.service_charge_min_guests?.toString() ?? "");
+      setMockPaymentsEnabled(data.mock_payments_enabled);
+      setTimeZone(data.timezone);
+      fetchTaxCategories(data.id);
+      fetchStations(data.id);
+    } catch (error) {
+      console.error("Error fetching restaurant:", error);
+      toast.error("Erreur lors du chargement des paramètres");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTaxCategories = async (restaurantId: string) => {
+    const { data } = await supabase
+      .from("tax_categories")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("rate", { ascending: true });
+    if (data) setTaxCategories(data);
+  };
+
+  const addTaxCategory = async () => {
+    if (!restaurant) return;
+    const { error } = await supabase
+      .from("tax_categories")
+      .insert({ restaurant_id: restaurant.id, name: "Nouvelle catégorie", rate: 20 });
+    if (error) toast.error(error.message);
+    else fetchTaxCategories(restaurant.id);
+  };
+
+  // Rates only apply to orders placed afterwards, past lines keep theirs
+  const updateTaxCategory = async (id: string, values: Partial<Pick<TaxCategory, "name" | "rate">>) => {
+    if (!restaurant) return;
+    if (values.rate !== undefined && !(values.rate >= 0 && values.rate <= 100)) {
+      toast.error("Le taux de TVA doit être compris entre 0 et 100 %");
+      return;
+    }
+    const { error } = await supabase.from("tax_categories").update(values).eq("id", id);
+    if (error) toast.error(error.message);
+    fetchTaxCategories(restaurant.id);
+  };
+
+  const setDefaultTaxCategory = async (id: string) => {
+    if (!restaurant) return;
+    // Clear the current default first, only one is allowed per restaurant
+    const { error: clearError } = await supabase
+      .from("tax_categories")
+      .update({ is_default: false })
+      .eq("restaurant_id", restaurant.id)
+      .eq("is_default", true);
+    if (clearError) {
+      toast.error(clearError.message);
+      return;
+    }
+
+    const { error } = await supabase.from("tax_categories").update({ is_default: true }).eq("id", id);
+    if (error) toast.error(error.message);
+    fetchTaxCategories(restaurant.id);
+  };
+
+  const deleteTaxCategory = async (id: string) => {
+    if (!restaurant) return;
+    if (!confirm("Supprimer cette catégorie ? Ses plats passeront au taux par défaut.")) return;
+    const { error } = await supabase.from("tax_categories").delete().eq("id", id);
+    if (error) toast.error(error.message);
+    else fetchTaxCategories(restaurant.id);
+  };
+
+  const fetchStations = async (restaurantId: string) => {
+    const { data } = await supabase
+      .from("stations")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("display_order", { ascending: true });
+    if (data) setStations(data);
+  };
+
+  const addStation = async () => {
+    if (!restaurant) return;
+    const { error } = await supabase
+      .from("stations")
+      .insert({ restaurant_id: restaurant.id, name: "Nouveau poste", display_order: stations.length });
+    if (error) toast.error(error.message);
+    else fetchStations(restaurant.id);
+  };
+
+  const renameStation = async (id: string, name: string) => {
+    if (!restaurant) return;
+    const { error } = await supabase.from("stations").update({ name }).eq("id", id);
+    if (error) toast.error(error.message);
+    fetchStations(restaurant.id);
+  };
+
+  const setDefaultStation = async (id: string) => {
+    if (!restaurant) return;
+    // Same dance as for the tax categories, one default per restaurant
+    const { error: clearError } = await supabase
+      .from("stations")
+      .update({ is_default: false })
+      .eq("restaurant_id", restaurant.id)
+      .eq("is_default", true);
+    if (clearError) {
+      toast.error(clearError.message);
+      return;
+    }
+
+    const { error } = await supabase.from("stations").update({ is_default: true }).eq("id", id);
+    if (error) toast.error(error.message);
+    fetchStations(restaurant.id);
+  };
+
+  const deleteStation = async (id: string) => {
+    if (!restaurant) return;
+    if (!confirm("Supprimer ce poste ? Ses plats passeront au poste par défaut et ses tickets en cours seront perdus.")) return;
+    const { error } = await supabase.from("stations").delete().eq("id", id);
+    if (error) toast.error(error.message);
+    else fetchStations(restaurant.id);
+  };
+
+  const updatePreset = (index: number, preset: Partial<TipPreset>) => {
+    setTipPresets((prev) => prev.map((p, i) => (i === index ? { ...p, ...preset } : p)));
+  };
+
+  const handleSave = async () => {
+    if (!restaurant) return;
+
+    if (tipPresets.some((preset) => !(preset.value > 0) || (preset.type === "percent" && preset.value > 100))) {
+      toast.error("Chaque pourboire doit être positif (100 % au plus)");
+      return;
+    }
+
+    const percent = parseFloat(serviceChargePercent);
+    if (serviceChargeEnabled && !(percent > 0 && percent <= 100)) {
+      toast.error("Le taux de service doit être compris entre 0 et 100 %");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("restaurants")
+      .update({
+        tip_presets: tipPresets as unknown as Json,
+        service_charge_percent: serviceChargeEnabled ? percent : null,
+        service_charge_min_guests: serviceChargeEnabled
+          ? parseInt(serviceChargeMinGuests) || null
+          : null,
+        mock_payments_enabled: mockPaymentsEnabled,
+        timezone: timeZone,
+      })
+      .eq("id", restaurant.id);
+    setSaving(false);
+
+    if (error) toast.error(error.message);
+    else toast.success("Paramètres enregistrés");
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Chargement...</div>;
+  }
+
+  if (!restaurant) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Les paramètres du restaurant sont réservés aux administrateurs.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      <h2 className="text-2xl font-bold">Paramètres · {restaurant.name}</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pourboires</CardTitle>
+          <CardDescription>Proposés aux clients au moment de commander</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {tipPresets.map((preset, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={preset.type}
+                onValueChange={(value) => updatePreset(index, { type: value as TipPreset["type"] })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Pourcentage</SelectItem>
+                  <SelectItem value="fixed">Montant fixe</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={preset.value}
+                onChange={(e) => updatePreset(index, { value: parseFloat(e.target.value) || 0 })}
+                className="w-28"
+              />
+              <span className="text-sm text-muted-foreground">
+                {preset.type === "percent" ? "%" : "€"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setTipPresets((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setTipPresets((prev) => [...prev, { type: "percent", value: 10 }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter un pourboire
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Service</CardTitle>
+          <CardDescription>Ajouté automatiquement aux commandes des grandes tables</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="service-charge"
+              checked={serviceChargeEnabled}
+              onCheckedChange={setServiceChargeEnabled}
+            />
+            <Label htmlFor="service-charge">Appliquer un service</Label>
+          </div>
+          {serviceChargeEnabled && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="service-percent">Taux (%)</Label>
+                <Input
+                  id="service-percent"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={serviceChargePercent}
+                  onChange={(e) => setServiceChargePercent(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="service-guests">À partir de (convives)</Label>
+                <Input
+                  id="service-guests"
+                  type="number"
+                  min="1"
+                  placeholder="1"
+                  value={serviceChargeMinGuests}
+                  onChange={(e) => setServiceChargeMinGuests(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fuseau horaire</CardTitle>
+          <CardDescription>Les horaires des catégories du menu suivent l'heure du restaurant</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={timeZone} onValueChange={setTimeZone}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* Keeps a zone set outside the list selectable */}
+              {!TIME_ZONES.some((zone) => zone.value === timeZone) && (
+                <SelectItem value={timeZone}>{timeZone}</SelectItem>
+              )}
+              {TIME_ZONES.map((zone) => (
+                <SelectItem key={zone.value} value={zone.value}>
+                  {zone.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Paiements</CardTitle>
+          <CardDescription>
+            Le paiement de test ne débite personne : à n'activer que pour essayer le paiement à table.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="mock-payments"
+              checked={mockPaymentsEnabled}
+              onCheckedChange={setMockPaymentsEnabled}
+            />
+            <Label htmlFor="mock-payments">Autoriser le paiement de test par les clients</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? "Enregistrement..." : "Enregistrer"}
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>TVA</CardTitle>
+          <CardDescription>
+            Les prix des plats sont TTC. La catégorie par défaut s'applique aux plats sans catégorie.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {taxCategories.map((category) => (
+            <div key={category.id} className="flex items-center gap-2">
+              <Input
+                key={`${category.id}-${category.name}`}
+                defaultValue={category.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== category.name) updateTaxCategory(category.id, { name });
+                }}
+              />
+              <Input
+                key={`${category.id}-${category.rate}`}
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                defaultValue={category.rate}
+                onBlur={(e) => {
+                  const rate = parseFloat(e.target.value);
+                  if (rate !== Number(category.rate)) updateTaxCategory(category.id, { rate });
+                }}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+              <Button
+                variant={category.is_default ? "default" : "outline"}
+                size="sm"
+                disabled={category.is_default}
+                onClick={() => setDefaultTaxCategory(category.id)}
+              >
+                Par défaut
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={category.is_default}
+                onClick={() => deleteTaxCategory(category.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addTaxCategory}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter une catégorie
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Postes de préparation</CardTitle>
+          <CardDescription>
+            Chaque commande est découpée en un ticket par poste. Les plats sans poste vont au poste par défaut.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {stations.map((station) => (
+            <div key={station.id} className="flex items-center gap-2">
+              <Input
+                key={`${station.id}-${station.name}`}
+                defaultValue={station.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== station.name) renameStation(station.id, name);
+                }}
+              />
+              <Button
+                variant={station.is_default ? "default" : "outline"}
+                size="sm"
+                disabled={station.is_default}
+                onClick={() => setDefaultStation(station.id)}
+              >
+                Par défaut
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={station.is_default}
+                onClick={() => deleteStation(station.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addStation}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter un poste
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,19 +7,23 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Plus, QrCode } from "lucide-react";
+import { Plus, Printer, QrCode, RefreshCw } from "lucide-react";
+import { getTableDeepLink } from "@/lib/tables";
+import QrSheetDialog from "@/components/admin/QrSheetDialog";
 
 interface Table {
   id: string;
   table_number: number;
   qr_code_data: string;
   is_active: boolean;
+  restaurant_id: string;
 }
 
 export default function TablesManagement() {
   const [tables, setTables] = useState<Table[]>([]);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [tableNumber, setTableNumber] = useState("");
+  const [sheetTables, setSheetTables] = useState<Table[] | null>(null);
 
   useEffect(() => {
     fetchTables();
@@ -37,10 +41,8 @@ export default function TablesManagement() {
     e.preventDefault();
 
     try {
-      const qrData = `table-${tableNumber}`;
       const { error } = await supabase.from("tables").insert({
         table_number: parseInt(tableNumber),
-        qr_code_data: qrData,
         is_active: true,
         restaurant_id: "00000000-0000-0000-0000-000000000000",
       });
@@ -68,47 +70,83 @@ export default function TablesManagement() {
     }
   };
 
+  const rotateToken = async (table: Table) => {
+    if (!confirm(`Générer un nouveau QR code pour la table ${table.table_number} ? L'ancien code ne fonctionnera plus.`)) return;
+
+    const { error } = await supabase.rpc("rotate_table_token", { _table_id: table.id });
+
+    if (error) toast.error(error.message);
+    else {
+      toast.success("Nouveau QR code généré");
+      fetchTables();
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Gestion des Tables</h2>
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Nouvelle Table
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Créer une table</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <Label htmlFor="number">Numéro de table</Label>
-                <Input
-                  id="number"
-                  type="number"
-                  value={tableNumber}
-                  onChange={(e) => setTableNumber(e.target.value)}
-                  required
-                />
-              </div>
-              <Button type="submit" className="w-full">
-                Créer
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setSheetTables(tables.filter((table) => table.is_active))}
+            disabled={!tables.some((table) => table.is_active)}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Imprimer les QR codes
+          </Button>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Nouvelle Table
               </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Créer une table</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="number">Numéro de table</Label>
+                  <Input
+                    id="number"
+                    type="number"
+                    value={tableNumber}
+                    onChange={(e) => setTableNumber(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full">
+                  Créer
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <QrSheetDialog
+        open={!!sheetTables}
+        onOpenChange={(open) => !open && setSheetTables(null)}
+        tables={sheetTables || []}
+        restaurantId={sheetTables?.[0]?.restaurant_id ?? null}
+      />
+
       <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-4">
         {tables.map((table) => (
           <Card key={table.id}>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Table {table.table_number}</span>
-                <QrCode className="h-5 w-5" />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setSheetTables([table])}
+                  title="Imprimer le QR code"
+                >
+                  <QrCode className="h-5 w-5" />
+                </Button>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -120,9 +158,18 @@ export default function TablesManagement() {
                   onCheckedChange={() => toggleActive(table.id, table.is_active)}
                 />
               </div>
-              <p className="text-xs text-muted-foreground mt-2">
-                QR: {table.qr_code_data}
+              <p className="text-xs text-muted-foreground mt-2 break-all">
+                QR: {getTableDeepLink(table.qr_code_data)}
               </p>
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-full mt-4"
+                onClick={() => rotateToken(table)}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Régénérer le QR code
+              </Button>
             </CardContent>
           </Card>
         ))}
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { CartContext } from "@/hooks/use-cart";
+import { useSharedCart } from "@/hooks/use-shared-cart";
+import { findRepricedItems, loadCartSnapshot, saveCartSnapshot } from "@/lib/cart-storage";
+
+/**
+ * Single cart store for the guest pages (Menu, MenuKids and their dialogs),
+ * mounted around their routes so switching menus keeps the cart.
+ */
+export const CartProvider = ({ children }: { children: ReactNode }) => {
+  const sharedCart = useSharedCart();
+  const { toast } = useToast();
+  const tableToken = sessionStorage.getItem("tableToken");
+  const [restored] = useState(() => (tableToken ? loadCartSnapshot(tableToken) : []));
+  const hasReconciled = useRef(false);
+
+  useEffect(() => {
+    if (!sharedCart.isLoaded || !tableToken) return;
+
+    saveCartSnapshot(tableToken, sharedCart.items);
+
+    // Only the first load is compared with the restored snapshot
+    if (hasReconciled.current) return;
+    hasReconciled.current = true;
+
+    const repriced = findRepricedItems(restored, sharedCart.items);
+    if (repriced.length > 0) {
+      toast({
+        title: "Prix mis à jour",
+        description: repriced
+          .map((item) => `${item.name} : ${item.previousPrice.toFixed(2)} € → ${item.currentPrice.toFixed(2)} €`)
+          .join(", "),
+      });
+    }
+  }, [sharedCart.isLoaded, sharedCart.items, tableToken, restored, toast]);
+
+  // The restored snapshot stays on screen, but nothing can be added to it
+  useEffect(() => {
+    if (!sharedCart.joinError) return;
+    toast({
+      title: "Table introuvable",
+      description: "Impossible de rejoindre la table, veuillez rescanner le QR code",
+      variant: "destructive",
+    });
+  }, [sharedCart.joinError, toast]);
+
+  // Show the snapshot until the shared cart has been fetched
+  const items = sharedCart.isLoaded ? sharedCart.items : restored;
+
+  return (
+    <CartContext.Provider
+      value={{
+        ...sharedCart,
+        items,
+        totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
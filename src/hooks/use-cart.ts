@@ -0,0 +1,17 @@
+import { createContext, useContext } from "react";
+import type { useSharedCart } from "@/hooks/use-shared-cart";
+
+export type CartContextValue = ReturnType<typeof useSharedCart> & {
+  totalItems: number;
+};
+
+export const CartContext = createContext<CartContextValue | null>(null);
+
+// The guest cart, provided by CartProvider around the guest pages
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
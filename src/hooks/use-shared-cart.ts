@@ -0,0 +1,286 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ensureGuestSession } from "@/lib/guest-session";
+import { joinTableSession } from "@/lib/tables";
+import {
+  fetchDishOptions,
+  flattenOptions,
+  getSelectedQuantities,
+  priceSelection,
+  type DishOptionGroup,
+} from "@/lib/dish-options";
+import type { CartItem, SelectedOption } from "@/pages/Menu";
+
+export interface SharedCartItem extends CartItem {
+  cartItemId: string;
+  addedBy: string | null;
+}
+
+export interface SessionMember {
+  user_id: string;
+  display_name: string | null;
+}
+
+type CartDish = Omit<CartItem, "quantity" | "comment" | "selectedOptions">;
+
+/**
+ * The cart shared by everyone at the table. It is stored per table session
+ * and kept in sync through realtime, so each guest sees what the others add.
+ */
+export function useSharedCart() {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<SharedCartItem[]>([]);
+  const [members, setMembers] = useState<SessionMember[]>([]);
+  const [guestCount, setGuestCountState] = useState<number | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [joinError, setJoinError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const tableToken = sessionStorage.getItem("tableToken");
+    if (!tableToken) return;
+
+    const join = async () => {
+      try {
+        const user = await ensureGuestSession();
+        setUserId(user?.id ?? null);
+        setSessionId(await joinTableSession(tableToken));
+      } catch (error) {
+        console.error("Error joining table session:", error);
+        setJoinError(error as Error);
+      }
+    };
+
+    join();
+  }, []);
+
+  const fetchItems = useCallback(async () => {
+    if (!sessionId) return;
+
+    const { data, error } = await supabase
+      .from("cart_items")
+      .select("id, added_by, quantity, comment, selected_options, dishes (*)")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching cart:", error);
+      return;
+    }
+
+    const rows = (data || []).filter((row) => row.dishes);
+
+    // selected_options is a copy taken when the line was added: refresh the
+    // option prices so the cart shows what the kitchen will charge. Prices
+    // and included units differ from one dish to another, hence one lookup
+    // per dish.
+    const dishIds = [
+      ...new Set(
+        rows
+          .filter((row) => (row.selected_options as unknown as SelectedOption[]).length > 0)
+          .map((row) => (row.dishes as CartDish).id)
+      ),
+    ];
+    const currentGroups = new Map(
+      await Promise.all(
+        dishIds.map(async (dishId) => {
+          try {
+            return [dishId, await fetchDishOptions(dishId)] as const;
+          } catch (error) {
+            console.error("Error fetching dish options:", error);
+            return [dishId, [] as DishOptionGroup[]] as const;
+          }
+        })
+      )
+    );
+
+    setItems(
+      rows.map((row) => {
+        const selected = row.selected_options as unknown as SelectedOption[];
+        const repriced = new Map(
+          flattenOptions(
+            priceSelection(currentGroups.get((row.dishes as CartDish).id) || [], getSelectedQuantities(selected))
+          ).map(({ option }) => [option.optionId, option])
+        );
+        const refresh = (options: SelectedOption[]): SelectedOption[] =>
+          options.map((opt) => ({
+            ...(repriced.get(opt.optionId) ?? opt),
+            children: opt.children && refresh(opt.children),
+          }));
+        return {
+          ...(row.dishes as CartDish),
+          cartItemId: row.id,
+          addedBy: row.added_by,
+          quantity: row.quantity,
+          comment: row.comment || undefined,
+          // Options the dish no longer offers keep their copy, place_order rejects them
+          selectedOptions: refresh(selected),
+        };
+      })
+    );
+    setIsLoaded(true);
+  }, [sessionId]);
+
+  const fetchMembers = useCallback(async () => {
+    if (!sessionId) return;
+
+    const { data, error } = await supabase
+      .from("table_session_members")
+      .select("user_id, display_name")
+      .eq("session_id", sessionId);
+
+    if (error) {
+      console.error("Error fetching table members:", error);
+      return;
+    }
+    setMembers(data || []);
+  }, [sessionId]);
+
+  const fetchGuestCount = useCallback(async () => {
+    if (!sessionId) return;
+
+    const { data, error } = await supabase
+      .from("table_sessions")
+      .select("guest_count")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching guest count:", error);
+      return;
+    }
+    setGuestCountState(data?.guest_count ?? null);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    fetchItems();
+    fetchMembers();
+    fetchGuestCount();
+
+    const channel = supabase
+      .channel(`cart-${sessionId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "cart_items", filter: `session_id=eq.${sessionId}` },
+        () => fetchItems()
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "cart_items", filter: `session_id=eq.${sessionId}` },
+        () => fetchItems()
+      )
+      // Delete events can't be filtered and only carry the id
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "cart_items" },
+        (payload) => setItems((prev) => prev.filter((item) => item.cartItemId !== payload.old.id))
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "table_session_members", filter: `session_id=eq.${sessionId}` },
+        () => fetchMembers()
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "table_sessions", filter: `id=eq.${sessionId}` },
+        () => fetchGuestCount()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, fetchItems, fetchMembers, fetchGuestCount]);
+
+  const addItem = async (dish: CartDish, selectedOptions: SelectedOption[], comment: string) => {
+    if (!sessionId) throw new Error("Table session not joined yet");
+
+    const { error } = await supabase.from("cart_items").insert({
+      session_id: sessionId,
+      added_by: userId,
+      dish_id: dish.id,
+      quantity: 1,
+      comment: comment || null,
+      selected_options: selectedOptions as unknown as Json,
+    });
+
+    if (error) throw error;
+    await fetchItems();
+  };
+
+  const removeItem = async (cartItemId: string) => {
+    setItems((prev) => prev.filter((item) => item.cartItemId !== cartItemId));
+
+    const { error } = await supabase.from("cart_items").delete().eq("id", cartItemId);
+    if (error) {
+      console.error("Error removing cart item:", error);
+      fetchItems();
+    }
+  };
+
+  const updateItem = async (cartItemId: string, quantity: number, comment?: string) => {
+    if (quantity === 0) return removeItem(cartItemId);
+
+    setItems((prev) =>
+      prev.map((item) =>
+        item.cartItemId === cartItemId ? { ...item, quantity, comment } : item
+      )
+    );
+
+    const { error } = await supabase
+      .from("cart_items")
+      .update({ quantity, comment: comment || null })
+      .eq("id", cartItemId);
+
+    if (error) {
+      console.error("Error updating cart item:", error);
+      fetchItems();
+    }
+  };
+
+  const setDisplayName = async (displayName: string) => {
+    if (!sessionId || !userId) return;
+
+    const { error } = await supabase
+      .from("table_session_members")
+      .update({ display_name: displayName.trim() || null })
+      .eq("session_id", sessionId)
+      .eq("user_id", userId);
+
+    if (error) console.error("Error updating display name:", error);
+  };
+
+  // The number of people at the table, which the service charge goes by
+  const setGuestCount = async (count: number) => {
+    if (!sessionId) return;
+
+    setGuestCountState(count);
+    const { error } = await supabase.rpc("set_session_guest_count", {
+      _session_id: sessionId,
+      _guest_count: count,
+    });
+    if (error) {
+      console.error("Error updating guest count:", error);
+      fetchGuestCount();
+    }
+  };
+
+  return {
+    sessionId,
+    userId,
+    items,
+    isLoaded,
+    joinError,
+    members,
+    guestCount,
+    addItem,
+    updateItem,
+    removeItem,
+    setDisplayName,
+    setGuestCount,
+    refresh: fetchItems,
+  };
+}
@@ -14,14 +14,200 @@ export type Database = {
   }
   public: {
     Tables: {
+      cart_items: {
+        Row: {
+          added_by: string | null
+          comment: string | null
+          created_at: string
+          dish_id: string
+          id: string
+          quantity: number
+          selected_options: Json
+          session_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          comment?: string | null
+          created_at?: string
+          dish_id: string
+          id?: string
+          quantity?: number
+          selected_options?: Json
+          session_id: string
+        }
+        Update: {
+          added_by?: string | null
+          comment?: string | null
+          created_at?: string
+          dish_id?: string
+          id?: string
+          quantity?: number
+          selected_options?: Json
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_dish_id_fkey"
+            columns: ["dish_id"]
+            isOneToOne: false
+            referencedRelation: "dishes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          created_at: string
+          display_order: number
+          emoji: string | null
+          id: string
+          is_visible: boolean
+          name: string
+          restaurant_id: string
+          visible_from: string | null
+          visible_until: string | null
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          emoji?: string | null
+          id?: string
+          is_visible?: boolean
+          name: string
+          restaurant_id: string
+          visible_from?: string | null
+          visible_until?: string | null
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          emoji?: string | null
+          id?: string
+          is_visible?: boolean
+          name?: string
+          restaurant_id?: string
+          visible_from?: string | null
+          visible_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_option_groups: {
+        Row: {
+          category: string
+          created_at: string
+          display_order: number
+          enable_description: boolean | null
+          free_quantity: number
+          id: string
+          is_required: boolean
+          max_select: number | null
+          min_select: number | null
+          name: string
+          parent_option_id: string | null
+          selection_type: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          display_order?: number
+          enable_description?: boolean | null
+          free_quantity?: number
+          id?: string
+          is_required?: boolean
+          max_select?: number | null
+          min_select?: number | null
+          name: string
+          parent_option_id?: string | null
+          selection_type?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          display_order?: number
+          enable_description?: boolean | null
+          free_quantity?: number
+          id?: string
+          is_required?: boolean
+          max_select?: number | null
+          min_select?: number | null
+          name?: string
+          parent_option_id?: string | null
+          selection_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_option_groups_parent_option_id_fkey"
+            columns: ["parent_option_id"]
+            isOneToOne: false
+            referencedRelation: "category_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_options: {
+        Row: {
+          created_at: string
+          display_order: number
+          extra_price: number
+          id: string
+          max_quantity: number
+          name: string
+          option_group_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          extra_price?: number
+          id?: string
+          max_quantity?: number
+          name: string
+          option_group_id: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          extra_price?: number
+          id?: string
+          max_quantity?: number
+          name?: string
+          option_group_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_options_option_group_id_fkey"
+            columns: ["option_group_id"]
+            isOneToOne: false
+            referencedRelation: "category_option_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       dish_option_groups: {
         Row: {
           allow_multiple: boolean
           created_at: string
           dish_id: string
           display_order: number
+          free_quantity: number
           id: string
           is_required: boolean
+          max_select: number | null
+          min_select: number | null
           name: string
         }
         Insert: {
@@ -29,8 +215,11 @@ export type Database = {
           created_at?: string
           dish_id: string
           display_order?: number
+          free_quantity?: number
           id?: string
           is_required?: boolean
+          max_select?: number | null
+          min_select?: number | null
           name: string
         }
         Update: {
@@ -38,8 +227,11 @@ export type Database = {
           created_at?: string
           dish_id?: string
           display_order?: number
+          free_quantity?: number
           id?: string
           is_required?: boolean
+          max_select?: number | null
+          min_select?: number | null
           name?: string
         }
         Relationships: [
@@ -52,11 +244,67 @@ export type Database = {
           },
         ]
       }
+      dish_option_overrides: {
+        Row: {
+          created_at: string
+          dish_id: string
+          display_order: number | null
+          group_id: string | null
+          id: string
+          is_hidden: boolean
+          option_id: string | null
+          price_modifier: number | null
+        }
+        Insert: {
+          created_at?: string
+          dish_id: string
+          display_order?: number | null
+          group_id?: string | null
+          id?: string
+          is_hidden?: boolean
+          option_id?: string | null
+          price_modifier?: number | null
+        }
+        Update: {
+          created_at?: string
+          dish_id?: string
+          display_order?: number | null
+          group_id?: string | null
+          id?: string
+          is_hidden?: boolean
+          option_id?: string | null
+          price_modifier?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dish_option_overrides_dish_id_fkey"
+            columns: ["dish_id"]
+            isOneToOne: false
+            referencedRelation: "dishes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dish_option_overrides_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "category_option_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dish_option_overrides_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "category_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       dish_options: {
         Row: {
           created_at: string
           display_order: number
           id: string
+          max_quantity: number
           name: string
           option_group_id: string
           price_modifier: number
@@ -65,6 +313,7 @@ export type Database = {
           created_at?: string
           display_order?: number
           id?: string
+          max_quantity?: number
           name: string
           option_group_id: string
           price_modifier?: number
@@ -73,6 +322,7 @@ export type Database = {
           created_at?: string
           display_order?: number
           id?: string
+          max_quantity?: number
           name?: string
           option_group_id?: string
           price_modifier?: number
@@ -98,6 +348,8 @@ export type Database = {
           name: string
           price: number
           restaurant_id: string
+          station_id: string | null
+          tax_category_id: string | null
           updated_at: string
         }
         Insert: {
@@ -110,6 +362,8 @@ export type Database = {
           name: string
           price: number
           restaurant_id: string
+          station_id?: string | null
+          tax_category_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -122,6 +376,8 @@ export type Database = {
           name?: string
           price?: number
           restaurant_id?: string
+          station_id?: string | null
+          tax_category_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -132,6 +388,20 @@ export type Database = {
             referencedRelation: "restaurants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "dishes_tax_category_id_fkey"
+            columns: ["tax_category_id"]
+            isOneToOne: false
+            referencedRelation: "tax_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dishes_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       order_items: {
@@ -143,8 +413,15 @@ export type Database = {
           options_selected: Json | null
           order_id: string
           quantity: number
+          status: Database["public"]["Enums"]["order_item_status"]
           subtotal: number
+          tax_amount: number
+          tax_rate: number
+          ticket_id: string | null
           unit_price: number
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
         }
         Insert: {
           comment?: string | null
@@ -154,8 +431,15 @@ export type Database = {
           options_selected?: Json | null
           order_id: string
           quantity: number
+          status?: Database["public"]["Enums"]["order_item_status"]
           subtotal: number
+          tax_amount?: number
+          tax_rate?: number
+          ticket_id?: string | null
           unit_price: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
           comment?: string | null
@@ -165,8 +449,15 @@ export type Database = {
           options_selected?: Json | null
           order_id?: string
           quantity?: number
+          status?: Database["public"]["Enums"]["order_item_status"]
           subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          ticket_id?: string | null
           unit_price?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Relationships: [
           {
@@ -183,34 +474,146 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "order_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: Database["public"]["Enums"]["app_role"] | null
+          created_at: string
+          id: string
+          order_id: string
+          previous_status: Database["public"]["Enums"]["order_status"] | null
+          reason: string | null
+          status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role?: Database["public"]["Enums"]["app_role"] | null
+          created_at?: string
+          id?: string
+          order_id: string
+          previous_status?: Database["public"]["Enums"]["order_status"] | null
+          reason?: string | null
+          status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: Database["public"]["Enums"]["app_role"] | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          previous_status?: Database["public"]["Enums"]["order_status"] | null
+          reason?: string | null
+          status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_tickets: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          station_id: string
+          status: Database["public"]["Enums"]["ticket_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          station_id: string
+          status?: Database["public"]["Enums"]["ticket_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          station_id?: string
+          status?: Database["public"]["Enums"]["ticket_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_tickets_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_tickets_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "stations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
           created_at: string
+          guest_id: string | null
           id: string
+          idempotency_key: string | null
+          service_charge: number
+          session_id: string | null
           status: Database["public"]["Enums"]["order_status"]
           table_id: string
+          tip: number
           total: number
           updated_at: string
         }
         Insert: {
           created_at?: string
+          guest_id?: string | null
           id?: string
+          idempotency_key?: string | null
+          service_charge?: number
+          session_id?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           table_id: string
+          tip?: number
           total: number
           updated_at?: string
         }
         Update: {
           created_at?: string
+          guest_id?: string | null
           id?: string
+          idempotency_key?: string | null
+          service_charge?: number
+          session_id?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           table_id?: string
+          tip?: number
           total?: number
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "orders_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_table_id_fkey"
             columns: ["table_id"]
@@ -220,30 +623,273 @@ export type Database = {
           },
         ]
       }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          label: string
+          order_item_ids: string[]
+          paid_at: string | null
+          provider: string | null
+          provider_reference: string | null
+          refunded_amount: number
+          refunded_at: string | null
+          session_id: string
+          split_mode: Database["public"]["Enums"]["bill_split_mode"]
+          status: Database["public"]["Enums"]["payment_status"]
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          label: string
+          order_item_ids?: string[]
+          paid_at?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
+          session_id: string
+          split_mode: Database["public"]["Enums"]["bill_split_mode"]
+          status?: Database["public"]["Enums"]["payment_status"]
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          label?: string
+          order_item_ids?: string[]
+          paid_at?: string | null
+          provider?: string | null
+          provider_reference?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
+          session_id?: string
+          split_mode?: Database["public"]["Enums"]["bill_split_mode"]
+          status?: Database["public"]["Enums"]["payment_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          payment_id: string
+          provider_reference: string | null
+          reason: string
+          refunded_by: string | null
+          status: Database["public"]["Enums"]["refund_status"]
+        }
+        Insert: {
+          amount: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          payment_id: string
+          provider_reference?: string | null
+          reason: string
+          refunded_by?: string | null
+          status?: Database["public"]["Enums"]["refund_status"]
+        }
+        Update: {
+          amount?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          payment_id?: string
+          provider_reference?: string | null
+          reason?: string
+          refunded_by?: string | null
+          status?: Database["public"]["Enums"]["refund_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurants: {
         Row: {
           address: string | null
           created_at: string
           email_admin: string | null
           id: string
+          mock_payments_enabled: boolean
           name: string
+          service_charge_min_guests: number | null
+          service_charge_percent: number | null
+          timezone: string
+          tip_presets: Json
         }
         Insert: {
           address?: string | null
           created_at?: string
           email_admin?: string | null
           id?: string
+          mock_payments_enabled?: boolean
           name: string
+          service_charge_min_guests?: number | null
+          service_charge_percent?: number | null
+          timezone?: string
+          tip_presets?: Json
         }
         Update: {
           address?: string | null
           created_at?: string
           email_admin?: string | null
           id?: string
+          mock_payments_enabled?: boolean
           name?: string
+          service_charge_min_guests?: number | null
+          service_charge_percent?: number | null
+          timezone?: string
+          tip_presets?: Json
         }
         Relationships: []
       }
+      revoked_table_tokens: {
+        Row: {
+          revoked_at: string
+          revoked_by: string | null
+          table_id: string
+          token: string
+        }
+        Insert: {
+          revoked_at?: string
+          revoked_by?: string | null
+          table_id: string
+          token: string
+        }
+        Update: {
+          revoked_at?: string
+          revoked_by?: string | null
+          table_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "revoked_table_tokens_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stations: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          is_default: boolean
+          name: string
+          restaurant_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_default?: boolean
+          name: string
+          restaurant_id: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_default?: boolean
+          name?: string
+          restaurant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stations_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_session_members: {
+        Row: {
+          display_name: string | null
+          joined_at: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          display_name?: string | null
+          joined_at?: string
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          display_name?: string | null
+          joined_at?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_session_members_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "table_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_sessions: {
+        Row: {
+          closed_at: string | null
+          guest_count: number | null
+          id: string
+          opened_at: string
+          status: Database["public"]["Enums"]["table_session_status"]
+          table_id: string
+        }
+        Insert: {
+          closed_at?: string | null
+          guest_count?: number | null
+          id?: string
+          opened_at?: string
+          status?: Database["public"]["Enums"]["table_session_status"]
+          table_id: string
+        }
+        Update: {
+          closed_at?: string | null
+          guest_count?: number | null
+          id?: string
+          opened_at?: string
+          status?: Database["public"]["Enums"]["table_session_status"]
+          table_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_sessions_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tables: {
         Row: {
           created_at: string
@@ -257,7 +903,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_active?: boolean | null
-          qr_code_data: string
+          qr_code_data?: string
           restaurant_id: string
           table_number: number
         }
@@ -279,6 +925,41 @@ export type Database = {
           },
         ]
       }
+      tax_categories: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          rate: number
+          restaurant_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          rate: number
+          restaurant_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          rate?: number
+          restaurant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_categories_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -316,6 +997,49 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_order_items: {
+        Args: { _items: Json; _order_id: string; _restaurant_id: string }
+        Returns: number
+      }
+      authorize_payment: {
+        Args: { _payment_id: string; _provider: string }
+        Returns: undefined
+      }
+      cancel_order: {
+        Args: { _order_id: string; _reason?: string }
+        Returns: undefined
+      }
+      compute_order_tip: {
+        Args: { _subtotal: number; _tip: Json }
+        Returns: number
+      }
+      ensure_table_session: { Args: { _table_id: string }; Returns: string }
+      estimate_order_wait: { Args: { _order_id: string }; Returns: number }
+      generate_table_token: { Args: never; Returns: string }
+      get_checkout_settings: {
+        Args: { _table_token: string }
+        Returns: {
+          service_charge_min_guests: number
+          service_charge_percent: number
+          tip_presets: Json
+        }[]
+      }
+      get_dish_station: {
+        Args: { _dish_id: string }
+        Returns: string
+      }
+      get_dish_tax_rate: {
+        Args: { _dish_id: string }
+        Returns: number
+      }
+      get_order_receipt: {
+        Args: { _order_id: string }
+        Returns: Json
+      }
+      get_restaurant_time_zone: {
+        Args: { _restaurant_id: string }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -323,10 +1047,116 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_category_open: {
+        Args: {
+          _at?: string
+          _category: Database["public"]["Tables"]["categories"]["Row"]
+        }
+        Returns: boolean
+      }
+      is_session_member: { Args: { _session_id: string }; Returns: boolean }
+      is_session_settled: { Args: { _session_id: string }; Returns: boolean }
+      join_table_session: { Args: { _table_token: string }; Returns: string }
+      nest_options_selected: {
+        Args: { _lines: Json; _parent_option_id?: string }
+        Returns: Json
+      }
+      place_order: {
+        Args: {
+          _idempotency_key: string
+          _items: Json
+          _table_token: string
+          _tip?: Json
+        }
+        Returns: string
+      }
+      price_order_item: {
+        Args: { _dish_id: string; _option_ids: string[] }
+        Returns: {
+          options_selected: Json
+          options_total: number
+        }[]
+      }
+      record_payment: {
+        Args: {
+          _payment_id: string
+          _provider: string
+          _provider_reference: string
+        }
+        Returns: undefined
+      }
+      record_refund: {
+        Args: { _provider_reference: string; _refund_id: string }
+        Returns: undefined
+      }
+      refresh_order_total: { Args: { _order_id: string }; Returns: undefined }
+      release_payment: { Args: { _payment_id: string }; Returns: undefined }
+      resolve_dish_options: {
+        Args: { _dish_id: string; _include_hidden?: boolean }
+        Returns: Json
+      }
+      resolve_table_token: {
+        Args: { _token: string }
+        Returns: {
+          restaurant_id: string
+          status: string
+          table_id: string
+          table_number: number
+        }[]
+      }
+      rotate_table_token: { Args: { _table_id: string }; Returns: string }
+      set_order_status: {
+        Args: {
+          _order_id: string
+          _reason?: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: undefined
+      }
+      set_session_guest_count: {
+        Args: { _guest_count: number; _session_id: string }
+        Returns: undefined
+      }
+      split_table_bill: {
+        Args: {
+          _mode: Database["public"]["Enums"]["bill_split_mode"]
+          _session_id: string
+          _shares: Json
+        }
+        Returns: undefined
+      }
+      start_refund: {
+        Args: { _amount?: number; _payment_id: string; _reason: string }
+        Returns: {
+          amount: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          payment_id: string
+          provider_reference: string | null
+          reason: string
+          refunded_by: string | null
+          status: Database["public"]["Enums"]["refund_status"]
+        }
+      }
+      submit_session_cart: {
+        Args: { _idempotency_key: string; _session_id: string; _tip?: Json }
+        Returns: string
+      }
+      void_order_item: {
+        Args: { _item_id: string; _reason: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "server" | "manager"
-      order_status: "received" | "preparing" | "ready" | "served" | "paid"
+      bill_split_mode: "even" | "items" | "custom"
+      order_item_status: "pending" | "cooking" | "done" | "served" | "voided"
+      order_status: "received" | "preparing" | "ready" | "served" | "paid" | "cancelled"
+      payment_status: "pending" | "processing" | "paid" | "refunded"
+      refund_status: "pending" | "completed"
+      table_session_status: "open" | "closed"
+      ticket_status: "received" | "preparing" | "ready"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -455,7 +1285,13 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "server", "manager"],
-      order_status: ["received", "preparing", "ready", "served", "paid"],
+      bill_split_mode: ["even", "items", "custom"],
+      order_item_status: ["pending", "cooking", "done", "served", "voided"],
+      order_status: ["received", "preparing", "ready", "served", "paid", "cancelled"],
+      payment_status: ["pending", "processing", "paid", "refunded"],
+      refund_status: ["pending", "completed"],
+      table_session_status: ["open", "closed"],
+      ticket_status: ["received", "preparing", "ready"],
     },
   },
 } as const
@@ -0,0 +1,31 @@
+let audioContext: AudioContext | null = null;
+
+/**
+ * Browsers only let a page play sound after a user gesture: call this from a
+ * click handler before relying on playAlertSound.
+ */
+export async function unlockAlertSound() {
+  audioContext ??= new AudioContext();
+  if (audioContext.state === "suspended") await audioContext.resume();
+}
+
+// Two short beeps, loud enough to be heard over a kitchen
+export function playAlertSound() {
+  const context = audioContext;
+  if (!context || context.state !== "running") return;
+
+  [0, 0.25].forEach((delay) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + delay;
+
+    oscillator.type = "square";
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  });
+}
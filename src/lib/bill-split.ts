@@ -0,0 +1,83 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type BillSplitMode = Database["public"]["Enums"]["bill_split_mode"];
+export type Payment = Database["public"]["Tables"]["payments"]["Row"];
+
+export const splitModeLabels: Record<BillSplitMode, string> = {
+  even: "Parts égales",
+  items: "Par plat",
+  custom: "Montants libres",
+};
+
+export const paymentStatusLabels: Record<Payment["status"], string> = {
+  pending: "À régler",
+  processing: "Paiement en cours",
+  paid: "Réglée",
+  refunded: "Remboursée",
+};
+
+// Still to be paid, including a card payment that was interrupted
+export const isPayable = (payment: Payment) => payment.status === "pending" || payment.status === "processing";
+
+export interface BillShareInput {
+  label?: string;
+  // Split by item
+  order_item_ids?: string[];
+  // Custom amounts
+  amount?: number;
+}
+
+/**
+ * Amount still due on a tab once the shares already paid are deducted.
+ */
+export const getRemainingAmount = (total: number, payments: Payment[]) =>
+  Math.max(
+    0,
+    total - payments
+      .filter((payment) => payment.status === "paid")
+      .reduce((sum, payment) => sum + Number(payment.amount), 0)
+  );
+
+// What a line costs once its order's tip and service charge are spread pro rata
+export const getItemDueAmount = (
+  subtotal: number,
+  order: { total: number; order_items: Array<{ subtotal: number }> }
+) => {
+  const itemsTotal = order.order_items.reduce((sum, item) => sum + Number(item.subtotal), 0);
+  return itemsTotal > 0 ? (Number(subtotal) * Number(order.total)) / itemsTotal : 0;
+};
+
+// Order lines already paid for through a by-item share
+export const isItemPaid = (itemId: string, payments: Payment[]) =>
+  payments.some((payment) => payment.status === "paid" && payment.order_item_ids.includes(itemId));
+
+/**
+ * Replaces the unpaid shares of a tab. The server computes the amounts
+ * (even and by-item splits) and checks that the shares cover what is due.
+ */
+export async function splitTableBill(sessionId: string, mode: BillSplitMode, shares: BillShareInput[]) {
+  const { error } = await supabase.rpc("split_table_bill", {
+    _session_id: sessionId,
+    _mode: mode,
+    _shares: shares as unknown as Json,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Turns what is left to pay into a single share, for a tab paid in one go.
+ */
+export async function createFullShare(sessionId: string): Promise<Payment> {
+  await splitTableBill(sessionId, "even", [{ label: "Addition complète" }]);
+
+  const { data, error } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("session_id", sessionId)
+    .eq("status", "pending")
+    .single();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,61 @@
+import type { SharedCartItem } from "@/hooks/use-shared-cart";
+import type { CartItem } from "@/pages/Menu";
+import { getOptionsTotal } from "@/lib/dish-options";
+
+const STORAGE_KEY = "cart";
+// Bump whenever SharedCartItem changes shape: older snapshots are then ignored
+const STORAGE_VERSION = 1;
+
+interface CartSnapshot {
+  version: number;
+  tableToken: string;
+  items: SharedCartItem[];
+}
+
+export interface RepricedItem {
+  name: string;
+  previousPrice: number;
+  currentPrice: number;
+}
+
+export const getUnitPrice = (item: CartItem) => item.price + getOptionsTotal(item.selectedOptions || []);
+
+/**
+ * Keeps a local copy of the table cart so it shows up instantly after a
+ * reload, before the shared cart has been fetched again.
+ */
+export function saveCartSnapshot(tableToken: string, items: SharedCartItem[]) {
+  const snapshot: CartSnapshot = { version: STORAGE_VERSION, tableToken, items };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    // Private browsing or full storage: the cart still works, just not offline
+    console.error("Error saving cart:", error);
+  }
+}
+
+export function loadCartSnapshot(tableToken: string): SharedCartItem[] {
+  try {
+    const snapshot: CartSnapshot | null = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (snapshot?.version !== STORAGE_VERSION || snapshot.tableToken !== tableToken) {
+      return [];
+    }
+    return snapshot.items;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lines of a restored snapshot whose price no longer matches the menu.
+ */
+export function findRepricedItems(restored: SharedCartItem[], current: SharedCartItem[]): RepricedItem[] {
+  const previous = new Map(restored.map((item) => [item.cartItemId, getUnitPrice(item)]));
+
+  return current.flatMap((item) => {
+    const previousPrice = previous.get(item.cartItemId);
+    const currentPrice = getUnitPrice(item);
+    if (previousPrice === undefined || Math.abs(previousPrice - currentPrice) < 0.005) return [];
+    return [{ name: item.name, previousPrice, currentPrice }];
+  });
+}
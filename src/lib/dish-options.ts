@@ -0,0 +1,178 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { SelectedOption } from "@/pages/Menu";
+
+export interface DishOption {
+  id: string;
+  name: string;
+  price_modifier: number;
+  // How many times it can be taken, e.g. up to 3 extra sauces
+  max_quantity: number;
+  is_hidden: boolean;
+  // Comes from the dish's category rather than the dish itself
+  inherited: boolean;
+}
+
+export interface DishOptionGroup {
+  id: string;
+  name: string;
+  is_required: boolean;
+  allow_multiple: boolean;
+  // Bounds on the units taken in the group, max_select null meaning no limit
+  min_select: number;
+  max_select: number | null;
+  // The first units of the group, in display order, are included in the dish
+  free_quantity: number;
+  // Offered only once this option, of another group, is taken
+  parent_option_id: string | null;
+  display_order: number;
+  is_hidden: boolean;
+  inherited: boolean;
+  options: DishOption[];
+}
+
+/**
+ * The option groups a dish offers, resolved server-side: its category's
+ * groups with the dish's overrides applied, then its own groups. This is
+ * what place_order prices against, so guests only ever see valid choices.
+ * The admin passes includeHidden to see (and restore) what a dish hides.
+ */
+export async function fetchDishOptions(dishId: string, includeHidden = false): Promise<DishOptionGroup[]> {
+  const { data, error } = await supabase.rpc("resolve_dish_options", {
+    _dish_id: dishId,
+    _include_hidden: includeHidden,
+  });
+
+  if (error) throw error;
+  return (data as unknown as DishOptionGroup[]) || [];
+}
+
+// Units taken of each option, by option id
+export type OptionQuantities = Record<string, number>;
+
+// Every option of a selection, the nested ones right after their parent
+export function flattenOptions(options: SelectedOption[], depth = 0): Array<{ option: SelectedOption; depth: number }> {
+  return options.flatMap((option) => [
+    { option, depth },
+    ...flattenOptions(option.children || [], depth + 1),
+  ]);
+}
+
+export function getOptionsTotal(options: SelectedOption[]) {
+  return flattenOptions(options).reduce((sum, { option }) => sum + Number(option.priceModifier), 0);
+}
+
+export function getSelectedQuantities(selectedOptions: SelectedOption[]): OptionQuantities {
+  return Object.fromEntries(
+    flattenOptions(selectedOptions).map(({ option }) => [option.optionId, option.quantity ?? 1])
+  );
+}
+
+// The groups opened by an option, or the top-level ones for null
+export function getChildGroups(groups: DishOptionGroup[], parentOptionId: string | null) {
+  return groups.filter((group) => group.parent_option_id === parentOptionId);
+}
+
+/**
+ * The groups offered given the choices made: the top-level ones, then the
+ * ones opened by each option taken, recursively. Only these are validated.
+ */
+export function getActiveGroups(
+  groups: DishOptionGroup[],
+  quantities: OptionQuantities,
+  parentOptionId: string | null = null
+): DishOptionGroup[] {
+  return getChildGroups(groups, parentOptionId).flatMap((group) => [
+    group,
+    ...group.options
+      .filter((option) => (quantities[option.id] || 0) > 0)
+      .flatMap((option) => getActiveGroups(groups, quantities, option.id)),
+  ]);
+}
+
+/**
+ * The options taken, priced the way price_order_item does it: each line
+ * costs its units beyond the ones its group includes. Choices in a group
+ * opened by an option go in that option's children, like options_selected.
+ * Options the dish doesn't offer, or whose group isn't open, are left out.
+ */
+export function priceSelection(
+  groups: DishOptionGroup[],
+  quantities: OptionQuantities,
+  parentOptionId: string | null = null
+): SelectedOption[] {
+  return getChildGroups(groups, parentOptionId).flatMap((group) => {
+    let units = 0;
+    return group.options
+      .filter((option) => (quantities[option.id] || 0) > 0)
+      .map((option) => {
+        const quantity = quantities[option.id];
+        units += quantity;
+        const charged = Math.min(quantity, Math.max(0, units - group.free_quantity));
+        const children = priceSelection(groups, quantities, option.id);
+        return {
+          groupId: group.id,
+          groupName: group.name,
+          optionId: option.id,
+          optionName: option.name,
+          quantity,
+          priceModifier: Math.round(charged * option.price_modifier * 100) / 100,
+          ...(children.length > 0 && { children }),
+        };
+      });
+  });
+}
+
+export function getGroupUnits(group: DishOptionGroup, quantities: OptionQuantities) {
+  return group.options.reduce((sum, option) => sum + (quantities[option.id] || 0), 0);
+}
+
+// Same rules and wording as price_order_item, which checks again on order
+export function getGroupError(group: DishOptionGroup, quantities: OptionQuantities): string | null {
+  const units = getGroupUnits(group, quantities);
+
+  if (units < group.min_select) {
+    return group.min_select === 1
+      ? `Le choix "${group.name}" est obligatoire`
+      : `Choisissez au moins ${group.min_select} option(s) pour "${group.name}"`;
+  }
+  if (group.max_select !== null && units > group.max_select) {
+    return group.max_select === 1
+      ? `Un seul choix possible pour "${group.name}"`
+      : `Au plus ${group.max_select} option(s) pour "${group.name}"`;
+  }
+  return null;
+}
+
+// What the guest is told about a group's rules, e.g. "2 inclus · jusqu'à 4"
+export function describeGroupRules(group: DishOptionGroup) {
+  const rules: string[] = [];
+  if (group.min_select > 1) rules.push(`au moins ${group.min_select}`);
+  if (group.max_select !== null && group.max_select > 1) rules.push(`jusqu'à ${group.max_select}`);
+  if (group.free_quantity > 0) rules.push(`${group.free_quantity} inclus`);
+  return rules.join(" · ");
+}
+
+/**
+ * The quantities once an option is set to the given count. Taking an option
+ * in a single-choice group drops the one picked before, like a radio button.
+ */
+export function withOptionQuantity(
+  quantities: OptionQuantities,
+  group: DishOptionGroup,
+  option: DishOption,
+  quantity: number
+): OptionQuantities {
+  const next = { ...quantities };
+  if (group.max_select === 1 && quantity > 0) group.options.forEach((other) => delete next[other.id]);
+  if (quantity > 0) next[option.id] = Math.min(quantity, option.max_quantity);
+  else delete next[option.id];
+  return next;
+}
+
+export function canAddOptionUnit(group: DishOptionGroup, option: DishOption, quantities: OptionQuantities) {
+  const taken = quantities[option.id] || 0;
+  if (taken >= option.max_quantity) return false;
+  // Picking another option of a single-choice group replaces the current one
+  if (group.max_select === 1 && taken === 0) return true;
+  return group.max_select === null || getGroupUnits(group, quantities) < group.max_select;
+}
@@ -0,0 +1,14 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Guests are signed in anonymously so row level security can scope what they
+ * see (their own orders) without asking them to create an account.
+ */
+export async function ensureGuestSession() {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session.user;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  return data.user;
+}
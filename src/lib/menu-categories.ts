@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type MenuCategory = Tables<"categories">;
+
+export interface MenuSection<D> {
+  name: string;
+  emoji: string | null;
+  dishes: D[];
+}
+
+// Same default as restaurants.timezone
+export const DEFAULT_TIME_ZONE = "Europe/Paris";
+
+// Postgres TIME values come back as "HH:MM:SS"
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since midnight on the restaurant's clock
+const getLocalMinutes = (now: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "numeric", minute: "numeric", hourCycle: "h23" })
+    .formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return get("hour") * 60 + get("minute");
+};
+
+export function formatVisibilityWindow(category: MenuCategory) {
+  const from = category.visible_from?.slice(0, 5);
+  const until = category.visible_until?.slice(0, 5);
+  if (from && until) return `${from} – ${until}`;
+  if (from) return `à partir de ${from}`;
+  if (until) return `jusqu'à ${until}`;
+  return null;
+}
+
+/**
+ * Whether guests see the category at the given time, in the restaurant's
+ * time zone as add_order_items checks it. A window whose start is after its
+ * end runs past midnight.
+ */
+export function isCategoryOpen(category: MenuCategory, timeZone: string, now = new Date()) {
+  if (!category.is_visible) return false;
+
+  const current = getLocalMinutes(now, timeZone);
+  const from = category.visible_from ? toMinutes(category.visible_from) : null;
+  const until = category.visible_until ? toMinutes(category.visible_until) : null;
+
+  if (from !== null && until !== null && from > until) return current >= from || current < until;
+  return (from === null || current >= from) && (until === null || current < until);
+}
+
+export async function fetchMenuCategories(restaurantId: string): Promise<MenuCategory[]> {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("display_order", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchRestaurantTimeZone(restaurantId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("get_restaurant_time_zone", { _restaurant_id: restaurantId });
+  if (error) throw error;
+  return data || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * The sections of the guest menu: the categories open right now, in the
+ * order set by the admin, each with its dishes. Empty ones are left out.
+ * Dishes filed under a name with no category row still show, at the end.
+ */
+export function getMenuSections<D extends { category: string }>(
+  categories: MenuCategory[],
+  dishes: D[],
+  timeZone: string,
+  now = new Date()
+): MenuSection<D>[] {
+  const known = new Set(categories.map((category) => category.name));
+  const orphans = [...new Set(dishes.map((dish) => dish.category))]
+    .filter((name) => !known.has(name))
+    .sort()
+    .map((name) => ({ name, emoji: null }));
+
+  return [...categories.filter((category) => isCategoryOpen(category, timeZone, now)), ...orphans]
+    .map((category) => ({
+      name: category.name,
+      emoji: category.emoji,
+      dishes: dishes.filter((dish) => dish.category === category.name),
+    }))
+    .filter((section) => section.dishes.length > 0);
+}
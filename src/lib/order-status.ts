@@ -0,0 +1,39 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+export const orderStatusColors: Record<OrderStatus, string> = {
+  received: "bg-blue-500",
+  preparing: "bg-yellow-500",
+  ready: "bg-green-500",
+  served: "bg-purple-500",
+  paid: "bg-gray-500",
+  cancelled: "bg-red-500",
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  received: "Reçue",
+  preparing: "En préparation",
+  ready: "Prête",
+  served: "Servie",
+  paid: "Payée",
+  cancelled: "Annulée",
+};
+
+export type OrderItemStatus = Database["public"]["Enums"]["order_item_status"];
+
+export const orderItemStatusLabels: Record<OrderItemStatus, string> = {
+  pending: "En attente",
+  cooking: "En préparation",
+  done: "Prêt",
+  served: "Servi",
+  voided: "Annulé",
+};
+
+export const orderItemStatusColors: Record<OrderItemStatus, string> = {
+  pending: "bg-blue-500",
+  cooking: "bg-yellow-500",
+  done: "bg-green-500",
+  served: "bg-purple-500",
+  voided: "bg-gray-400",
+};
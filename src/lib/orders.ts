@@ -0,0 +1,38 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ensureGuestSession } from "@/lib/guest-session";
+import type { TipPreset } from "@/lib/tips";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+// Errors without a Postgres error code never reached the database (network, timeout)
+const isNetworkError = (error: PostgrestError) => !error.code;
+
+// P0001: validation error raised by the ordering RPCs, safe to show to guests as is
+export const isOrderValidationError = (error: unknown) =>
+  (error as PostgrestError)?.code === "P0001";
+
+/**
+ * Sends the table's shared cart to the kitchen as one order through the
+ * submit_session_cart RPC. Network failures are retried with the same
+ * idempotency key, so the server never creates the order twice.
+ */
+export async function submitSharedCart(sessionId: string, idempotencyKey: string, tip: TipPreset | null = null) {
+  // The order is attached to the guest's anonymous user so they can track it
+  await ensureGuestSession();
+
+  for (let attempt = 1; ; attempt++) {
+    const { data, error } = await supabase.rpc("submit_session_cart", {
+      _session_id: sessionId,
+      _idempotency_key: idempotencyKey,
+      _tip: tip as unknown as Json,
+    });
+
+    if (!error) return data;
+    if (!isNetworkError(error) || attempt >= MAX_ATTEMPTS) throw error;
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+  }
+}
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Payment } from "@/lib/bill-split";
+import { mockPaymentProvider } from "./mock";
+import type { PaymentIntent, PaymentMethodDetails, PaymentProvider } from "./types";
+
+export type { PaymentIntent, PaymentMethodDetails, PaymentProvider } from "./types";
+
+const CURRENCY = "eur";
+
+// Payments collected at the counter, without going through a gateway
+export const CASH_PROVIDER = "cash";
+
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.id]: mockPaymentProvider,
+};
+
+/**
+ * The gateway used for card payments, picked with VITE_PAYMENT_PROVIDER.
+ * Defaults to the mock provider.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const id = import.meta.env.VITE_PAYMENT_PROVIDER || mockPaymentProvider.id;
+  const provider = providers[id];
+  if (!provider) throw new Error(`Unknown payment provider "${id}"`);
+  return provider;
+}
+
+export const getProviderName = (id: string | null) => {
+  if (id === CASH_PROVIDER) return "Espèces";
+  return (id && providers[id]?.name) || id || "Autre";
+};
+
+async function recordPayment(paymentId: string, provider: string, reference: string) {
+  const { error } = await supabase.rpc("record_payment", {
+    _payment_id: paymentId,
+    _provider: provider,
+    _provider_reference: reference,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Charges a bill share through the payment provider and records it as paid.
+ * A declined payment resolves with a failed intent rather than throwing.
+ * Nothing is charged unless the payment may be recorded afterwards, and the
+ * share is held until then. The share id is the idempotency key, so a retry
+ * picks up the intent already charged instead of charging again.
+ */
+export async function payShare(payment: Payment, details: PaymentMethodDetails): Promise<PaymentIntent> {
+  const provider = getPaymentProvider();
+
+  const { error } = await supabase.rpc("authorize_payment", {
+    _payment_id: payment.id,
+    _provider: provider.id,
+  });
+  if (error) throw error;
+
+  const intent = await provider.createIntent(
+    Number(payment.amount),
+    CURRENCY,
+    { payment_id: payment.id },
+    payment.id
+  );
+  const confirmed = intent.status === "succeeded" ? intent : await provider.confirm(intent.id, details);
+  if (confirmed.status !== "succeeded") {
+    const { error: releaseError } = await supabase.rpc("release_payment", { _payment_id: payment.id });
+    if (releaseError) console.error("Error releasing payment:", releaseError);
+    return confirmed;
+  }
+
+  await recordPayment(payment.id, provider.id, confirmed.id);
+  return confirmed;
+}
+
+export async function recordCashPayment(payment: Payment) {
+  await recordPayment(payment.id, CASH_PROVIDER, "");
+}
+
+/**
+ * Refunds all or part of a paid share with the provider that charged it.
+ * Cash payments are handed back at the counter. Omitting the amount refunds
+ * whatever hasn't been refunded yet. The refund is written down as pending
+ * first and its id goes to the provider as idempotency key, so retrying
+ * after a failure never pays the money back twice.
+ */
+export async function refundShare(payment: Payment, reason: string, amount?: number) {
+  const { data: refund, error: startError } = await supabase.rpc("start_refund", {
+    _payment_id: payment.id,
+    _reason: reason,
+    _amount: amount,
+  });
+  if (startError) throw startError;
+
+  let reference = "";
+  if (payment.provider && payment.provider !== CASH_PROVIDER) {
+    const provider = providers[payment.provider];
+    if (!provider) throw new Error(`Unknown payment provider "${payment.provider}"`);
+    if (!payment.provider_reference) throw new Error("Missing provider reference");
+    reference = (await provider.refund(payment.provider_reference, Number(refund.amount), refund.id)).id;
+  }
+
+  const { error } = await supabase.rpc("record_refund", {
+    _refund_id: refund.id,
+    _provider_reference: reference,
+  });
+  if (error) throw error;
+}
+
+// What can still be refunded on a share
+export const getRefundableAmount = (payment: Payment) =>
+  payment.status === "paid" ? Number(payment.amount) - Number(payment.refunded_amount) : 0;
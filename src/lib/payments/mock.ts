@@ -0,0 +1,65 @@
+import type { PaymentIntent, PaymentProvider, PaymentRefund } from "./types";
+
+const SIMULATED_LATENCY_MS = 600;
+
+// Same convention as most gateways' test cards: the last digits pick the outcome
+const declinedCards: Record<string, string> = {
+  "0002": "Carte refusée",
+  "9995": "Fonds insuffisants",
+};
+
+const intents = new Map<string, PaymentIntent>();
+const intentIdsByKey = new Map<string, string>();
+const refundsByKey = new Map<string, PaymentRefund>();
+
+const simulateLatency = () => new Promise((resolve) => setTimeout(resolve, SIMULATED_LATENCY_MS));
+
+/**
+ * Local gateway for development and tests: nothing is charged, any card
+ * number succeeds except the declined test cards above.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  id: "mock",
+  name: "Paiement simulé",
+
+  async createIntent(amount, currency, _metadata, idempotencyKey) {
+    await simulateLatency();
+    const existingId = intentIdsByKey.get(idempotencyKey);
+    if (existingId) return intents.get(existingId)!;
+
+    const intent: PaymentIntent = {
+      id: `mock_pi_${crypto.randomUUID()}`,
+      amount,
+      currency,
+      status: "requires_confirmation",
+    };
+    intents.set(intent.id, intent);
+    intentIdsByKey.set(idempotencyKey, intent.id);
+    return intent;
+  },
+
+  async confirm(intentId, details) {
+    await simulateLatency();
+    const intent = intents.get(intentId);
+    if (!intent) throw new Error(`Unknown mock payment intent ${intentId}`);
+
+    const digits = (details.cardNumber || "").replace(/\D/g, "");
+    const failureReason = declinedCards[digits.slice(-4)];
+    const confirmed: PaymentIntent = failureReason
+      ? { ...intent, status: "failed", failureReason }
+      : { ...intent, status: "succeeded" };
+
+    intents.set(intentId, confirmed);
+    return confirmed;
+  },
+
+  async refund(intentId, amount, idempotencyKey) {
+    await simulateLatency();
+    const existing = refundsByKey.get(idempotencyKey);
+    if (existing) return existing;
+
+    const refund: PaymentRefund = { id: `mock_re_${crypto.randomUUID()}`, intentId, amount };
+    refundsByKey.set(idempotencyKey, refund);
+    return refund;
+  },
+};
@@ -0,0 +1,40 @@
+export type PaymentIntentStatus = "requires_confirmation" | "succeeded" | "failed";
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  // Shown to the guest when the payment is declined
+  failureReason?: string;
+}
+
+export interface PaymentMethodDetails {
+  cardNumber?: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount?: number;
+}
+
+/**
+ * A payment gateway. Amounts are in euros, as stored in the database; the
+ * provider converts them to whatever unit its API expects.
+ */
+export interface PaymentProvider {
+  id: string;
+  name: string;
+  // The same idempotency key gives back the intent already created with it
+  createIntent(
+    amount: number,
+    currency: string,
+    metadata: Record<string, string>,
+    idempotencyKey: string
+  ): Promise<PaymentIntent>;
+  confirm(intentId: string, details: PaymentMethodDetails): Promise<PaymentIntent>;
+  // Omitting the amount refunds the whole payment. The same idempotency key
+  // gives back the refund already issued with it.
+  refund(intentId: string, amount: number | undefined, idempotencyKey: string): Promise<PaymentRefund>;
+}
@@ -0,0 +1,308 @@
+import QRCode from "qrcode";
+import { jsPDF } from "jspdf";
+import { getTableDeepLink } from "@/lib/tables";
+
+export type QrSheetLayout = "tent" | "sticker";
+
+export interface QrSheetTable {
+  table_number: number;
+  qr_code_data: string;
+}
+
+export interface QrSheetOptions {
+  layout: QrSheetLayout;
+  restaurantName: string;
+  logoDataUrl?: string | null;
+}
+
+// All geometry is expressed in millimetres on an A4 portrait page
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const PAGE_MARGIN = 10;
+const LOGO_ASPECT_RATIO = 2;
+
+const FONT_FAMILY = "Helvetica, Arial, sans-serif";
+// 1pt = 0.3528mm, font sizes below are in mm
+const PT = 0.3528;
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+type SheetOp =
+  | { kind: "qr"; box: Box; modules: boolean[][] }
+  | { kind: "text"; x: number; y: number; text: string; size: number; bold: boolean; rotated: boolean }
+  | { kind: "image"; box: Box; dataUrl: string; rotated: boolean }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; dashed: boolean };
+
+interface SheetPage {
+  ops: SheetOp[];
+}
+
+const layoutGrids: Record<QrSheetLayout, { columns: number; rows: number }> = {
+  // Two tent cards per page, each folded along its horizontal middle
+  tent: { columns: 1, rows: 2 },
+  sticker: { columns: 3, rows: 4 },
+};
+
+const getQrModules = (text: string): boolean[][] => {
+  const qr = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const size = qr.modules.size;
+  const modules: boolean[][] = [];
+  for (let row = 0; row < size; row++) {
+    const line: boolean[] = [];
+    for (let col = 0; col < size; col++) {
+      line.push(!!qr.modules.get(row, col));
+    }
+    modules.push(line);
+  }
+  return modules;
+};
+
+/**
+ * Draws one card (table number, restaurant name, QR code and the manual
+ * code) into `panel`. Rotated panels are the back face of a tent card.
+ */
+const drawCard = (
+  ops: SheetOp[],
+  panel: Box,
+  table: QrSheetTable,
+  options: QrSheetOptions,
+  rotated: boolean
+) => {
+  const compact = options.layout === "sticker";
+  // Map a box expressed relative to the panel to page coordinates
+  const place = (x: number, y: number, w: number, h: number): Box =>
+    rotated
+      ? { x: panel.x + panel.w - x - w, y: panel.y + panel.h - y - h, w, h }
+      : { x: panel.x + x, y: panel.y + y, w, h };
+  const text = (y: number, value: string, sizePt: number, bold: boolean) => {
+    const anchor = place(panel.w / 2, y, 0, 0);
+    ops.push({ kind: "text", x: anchor.x, y: anchor.y, text: value, size: sizePt * PT, bold, rotated });
+  };
+
+  let cursor = compact ? 4 : 8;
+
+  if (options.logoDataUrl) {
+    const logoHeight = compact ? 8 : 14;
+    ops.push({
+      kind: "image",
+      box: place((panel.w - logoHeight * LOGO_ASPECT_RATIO) / 2, cursor, logoHeight * LOGO_ASPECT_RATIO, logoHeight),
+      dataUrl: options.logoDataUrl,
+      rotated,
+    });
+    cursor += logoHeight + 2;
+  }
+
+  cursor += compact ? 4 : 6;
+  text(cursor, options.restaurantName, compact ? 9 : 16, true);
+  cursor += compact ? 7 : 12;
+  text(cursor, `Table ${table.table_number}`, compact ? 16 : 28, true);
+  cursor += compact ? 2 : 4;
+
+  const footer = compact ? 9 : 14;
+  const qrSize = Math.min(panel.h - cursor - footer, panel.w - 16);
+  ops.push({
+    kind: "qr",
+    box: place((panel.w - qrSize) / 2, cursor, qrSize, qrSize),
+    modules: getQrModules(getTableDeepLink(table.qr_code_data)),
+  });
+  cursor += qrSize + (compact ? 3 : 5);
+
+  text(cursor, "Scannez pour commander", compact ? 7 : 12, false);
+  cursor += compact ? 3 : 5;
+  text(cursor, `Code : ${table.qr_code_data}`, compact ? 6 : 9, false);
+};
+
+const buildPages = (tables: QrSheetTable[], options: QrSheetOptions): SheetPage[] => {
+  const { columns, rows } = layoutGrids[options.layout];
+  const perPage = columns * rows;
+  const cellWidth = (PAGE_WIDTH - PAGE_MARGIN * 2) / columns;
+  const cellHeight = (PAGE_HEIGHT - PAGE_MARGIN * 2) / rows;
+  const pages: SheetPage[] = [];
+
+  tables.forEach((table, index) => {
+    if (index % perPage === 0) pages.push({ ops: [] });
+    const { ops } = pages[pages.length - 1];
+    const slot = index % perPage;
+    const cell: Box = {
+      x: PAGE_MARGIN + (slot % columns) * cellWidth,
+      y: PAGE_MARGIN + Math.floor(slot / columns) * cellHeight,
+      w: cellWidth,
+      h: cellHeight,
+    };
+
+    // Cut marks around every cell
+    ops.push({ kind: "line", x1: cell.x, y1: cell.y, x2: cell.x + cell.w, y2: cell.y, dashed: true });
+    ops.push({ kind: "line", x1: cell.x, y1: cell.y + cell.h, x2: cell.x + cell.w, y2: cell.y + cell.h, dashed: true });
+    ops.push({ kind: "line", x1: cell.x, y1: cell.y, x2: cell.x, y2: cell.y + cell.h, dashed: true });
+    ops.push({ kind: "line", x1: cell.x + cell.w, y1: cell.y, x2: cell.x + cell.w, y2: cell.y + cell.h, dashed: true });
+
+    if (options.layout === "tent") {
+      const half = cell.h / 2;
+      // Fold line; the upper face is printed upside down so both sides read correctly once folded
+      ops.push({ kind: "line", x1: cell.x, y1: cell.y + half, x2: cell.x + cell.w, y2: cell.y + half, dashed: false });
+      drawCard(ops, { x: cell.x, y: cell.y, w: cell.w, h: half }, table, options, true);
+      drawCard(ops, { x: cell.x, y: cell.y + half, w: cell.w, h: half }, table, options, false);
+    } else {
+      drawCard(ops, cell, table, options, false);
+    }
+  });
+
+  return pages;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const renderSvgOp = (op: SheetOp): string => {
+  switch (op.kind) {
+    case "line":
+      return `<line x1="${op.x1}" y1="${op.y1}" x2="${op.x2}" y2="${op.y2}" stroke="#999" stroke-width="0.2"${
+        op.dashed ? ' stroke-dasharray="2 2"' : ""
+      }/>`;
+    case "text":
+      return `<text x="${op.x}" y="${op.y}" font-family="${FONT_FAMILY}" font-size="${op.size}" font-weight="${
+        op.bold ? "bold" : "normal"
+      }" text-anchor="middle"${op.rotated ? ` transform="rotate(180 ${op.x} ${op.y})"` : ""}>${escapeXml(op.text)}</text>`;
+    case "image": {
+      const { x, y, w, h } = op.box;
+      return `<image href="${op.dataUrl}" x="${x}" y="${y}" width="${w}" height="${h}" preserveAspectRatio="xMidYMid meet"${
+        op.rotated ? ` transform="rotate(180 ${x + w / 2} ${y + h / 2})"` : ""
+      }/>`;
+    }
+    case "qr": {
+      const moduleSize = op.box.w / op.modules.length;
+      const path = op.modules
+        .flatMap((line, row) =>
+          line.map((dark, col) =>
+            dark ? `M${op.box.x + col * moduleSize} ${op.box.y + row * moduleSize}h${moduleSize}v${moduleSize}h-${moduleSize}z` : ""
+          )
+        )
+        .join("");
+      return `<path d="${path}" fill="#000"/>`;
+    }
+  }
+};
+
+export function renderQrSheetSvgs(tables: QrSheetTable[], options: QrSheetOptions): string[] {
+  return buildPages(tables, options).map(
+    (page) =>
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${PAGE_HEIGHT}mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}">` +
+      `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#fff"/>` +
+      page.ops.map(renderSvgOp).join("") +
+      "</svg>"
+  );
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Invalid logo image"));
+    image.src = src;
+  });
+
+/**
+ * Fits an uploaded logo into a transparent 2:1 PNG so the SVG and PDF
+ * renderers lay it out identically, whatever the source format.
+ */
+export async function prepareLogo(file: File): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement("canvas");
+    canvas.height = 200;
+    canvas.width = canvas.height * LOGO_ASPECT_RATIO;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas not supported");
+    const scale = Math.min(canvas.width / image.width, canvas.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const rotateImage180 = async (dataUrl: string): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas not supported");
+  context.translate(image.width, image.height);
+  context.rotate(Math.PI);
+  context.drawImage(image, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+export async function renderQrSheetPdf(tables: QrSheetTable[], options: QrSheetOptions): Promise<Blob> {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "portrait" });
+  const pages = buildPages(tables, options);
+  const rotatedLogo = options.logoDataUrl && options.layout === "tent"
+    ? await rotateImage180(options.logoDataUrl)
+    : null;
+
+  pages.forEach((page, pageIndex) => {
+    if (pageIndex > 0) doc.addPage();
+
+    page.ops.forEach((op) => {
+      switch (op.kind) {
+        case "line":
+          doc.setDrawColor(153);
+          doc.setLineWidth(0.2);
+          doc.setLineDashPattern(op.dashed ? [2, 2] : [], 0);
+          doc.line(op.x1, op.y1, op.x2, op.y2);
+          break;
+        case "text": {
+          doc.setFont("helvetica", op.bold ? "bold" : "normal");
+          doc.setFontSize(op.size / PT);
+          const width = doc.getTextWidth(op.text);
+          // jsPDF rotates around the start point, so anchor it manually
+          if (op.rotated) doc.text(op.text, op.x + width / 2, op.y, { angle: 180 });
+          else doc.text(op.text, op.x - width / 2, op.y);
+          break;
+        }
+        case "image": {
+          const source = op.rotated && rotatedLogo ? rotatedLogo : op.dataUrl;
+          const { x, y, w, h } = op.box;
+          doc.addImage(source, x, y, w, h);
+          break;
+        }
+        case "qr": {
+          const moduleSize = op.box.w / op.modules.length;
+          doc.setFillColor(0, 0, 0);
+          op.modules.forEach((line, row) =>
+            line.forEach((dark, col) => {
+              if (dark) {
+                doc.rect(op.box.x + col * moduleSize, op.box.y + row * moduleSize, moduleSize, moduleSize, "F");
+              }
+            })
+          );
+          break;
+        }
+      }
+    });
+  });
+
+  return doc.output("blob");
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,354 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { SelectedOption } from "@/pages/Menu";
+import { formatTaxRate, getTaxBreakdown, type TaxedItem } from "@/lib/tax";
+import { flattenOptions } from "@/lib/dish-options";
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+export interface ReceiptItem extends TaxedItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  comment: string | null;
+  options_selected: SelectedOption[];
+}
+
+// Shape returned by get_order_receipt
+export interface Receipt {
+  restaurant: { name: string; address: string | null };
+  table_number: number;
+  order: {
+    id: string;
+    status: OrderStatus;
+    created_at: string;
+    total: number;
+    tip: number;
+    service_charge: number;
+  };
+  items: ReceiptItem[];
+}
+
+export type ReceiptFormat = "html" | "pdf" | "escpos";
+
+type ReceiptLine =
+  | { kind: "title"; text: string }
+  | { kind: "center"; text: string }
+  | { kind: "row"; left: string; right?: string; bold?: boolean; indent?: boolean }
+  | { kind: "columns"; cells: string[]; bold?: boolean }
+  | { kind: "separator" };
+
+// Thermal roll geometry: 80mm paper, 42 characters per line in the default font
+const PAPER_WIDTH = 80;
+const PAPER_MARGIN = 4;
+const LINE_HEIGHT = 4.5;
+const ESC_POS_COLUMNS = 42;
+
+const formatAmount = (amount: number) => `${Number(amount).toFixed(2)} €`;
+
+export const getReceiptNumber = (receipt: Receipt) => receipt.order.id.slice(0, 8).toUpperCase();
+
+export async function fetchReceipt(orderId: string): Promise<Receipt> {
+  const { data, error } = await supabase.rpc("get_order_receipt", { _order_id: orderId });
+  if (error) throw error;
+  return data as unknown as Receipt;
+}
+
+/**
+ * Lays a receipt out once as a list of lines; the HTML, PDF and ESC/POS
+ * renderers only differ in how they draw each kind of line.
+ */
+const buildReceiptLines = (receipt: Receipt): ReceiptLine[] => {
+  const { order, items } = receipt;
+  const itemsTotal = items.reduce((sum, item) => sum + Number(item.subtotal), 0);
+  const lines: ReceiptLine[] = [{ kind: "title", text: receipt.restaurant.name }];
+
+  (receipt.restaurant.address || "")
+    .split("\n")
+    .filter((line) => line.trim())
+    .forEach((line) => lines.push({ kind: "center", text: line.trim() }));
+
+  lines.push(
+    { kind: "separator" },
+    {
+      kind: "row",
+      left: `Table ${receipt.table_number}`,
+      right: format(new Date(order.created_at), "dd/MM/yyyy HH:mm", { locale: fr }),
+    },
+    { kind: "row", left: `Commande #${getReceiptNumber(receipt)}` },
+    { kind: "separator" }
+  );
+
+  items.forEach((item) => {
+    lines.push({ kind: "row", left: `${item.quantity}x ${item.name}`, right: formatAmount(item.subtotal) });
+    flattenOptions(item.options_selected).forEach(({ option, depth }) =>
+      lines.push({
+        kind: "row",
+        left: `${"  ".repeat(depth)}+ ${(option.quantity ?? 1) > 1 ? `${option.quantity}x ` : ""}${option.optionName}`,
+        right: Number(option.priceModifier) !== 0 ? formatAmount(option.priceModifier) : undefined,
+        indent: true,
+      })
+    );
+    if (item.comment) {
+      lines.push({ kind: "row", left: `« ${item.comment} »`, indent: true });
+    }
+  });
+
+  lines.push({ kind: "separator" }, { kind: "row", left: "Sous-total", right: formatAmount(itemsTotal) });
+  if (Number(order.service_charge) > 0) {
+    lines.push({ kind: "row", left: "Service", right: formatAmount(order.service_charge) });
+  }
+  if (Number(order.tip) > 0) {
+    lines.push({ kind: "row", left: "Pourboire", right: formatAmount(order.tip) });
+  }
+  lines.push({ kind: "row", left: "TOTAL TTC", right: formatAmount(order.total), bold: true });
+
+  const taxLines = getTaxBreakdown([{ service_charge: order.service_charge, order_items: items }]);
+  if (taxLines.length > 0) {
+    lines.push({ kind: "separator" }, { kind: "columns", cells: ["TVA", "HT", "TVA", "TTC"], bold: true });
+    taxLines.forEach((line) =>
+      lines.push({
+        kind: "columns",
+        cells: [formatTaxRate(line.rate), line.base.toFixed(2), line.tax.toFixed(2), line.total.toFixed(2)],
+      })
+    );
+  }
+
+  lines.push(
+    { kind: "separator" },
+    { kind: "center", text: order.status === "paid" ? "Payée" : "Reste à régler" },
+    { kind: "center", text: "Merci de votre visite !" }
+  );
+
+  return lines;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const renderHtmlLine = (line: ReceiptLine): string => {
+  switch (line.kind) {
+    case "title":
+      return `<h1>${escapeHtml(line.text)}</h1>`;
+    case "center":
+      return `<p class="center">${escapeHtml(line.text)}</p>`;
+    case "row":
+      return `<div class="row${line.bold ? " bold" : ""}${line.indent ? " indent" : ""}"><span>${escapeHtml(
+        line.left
+      )}</span><span>${escapeHtml(line.right || "")}</span></div>`;
+    case "columns":
+      return `<div class="columns${line.bold ? " bold" : ""}">${line.cells
+        .map((cell) => `<span>${escapeHtml(cell)}</span>`)
+        .join("")}</div>`;
+    case "separator":
+      return "<hr>";
+  }
+};
+
+export function renderReceiptHtml(receipt: Receipt): string {
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>Reçu ${escapeHtml(getReceiptNumber(receipt))}</title>
+<style>
+  @page { size: ${PAPER_WIDTH}mm auto; margin: ${PAPER_MARGIN}mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; max-width: ${PAPER_WIDTH - PAPER_MARGIN * 2}mm; margin: 0 auto; }
+  h1 { font-size: 18px; text-align: center; margin: 0 0 4px; }
+  p { margin: 2px 0; }
+  hr { border: 0; border-top: 1px dashed #000; margin: 6px 0; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .row { display: flex; justify-content: space-between; gap: 8px; margin: 2px 0; }
+  .indent { padding-left: 12px; font-size: 11px; color: #444; }
+  .columns { display: grid; grid-template-columns: repeat(4, 1fr); text-align: right; font-size: 11px; }
+  .columns span:first-child { text-align: left; }
+</style>
+</head>
+<body>
+${buildReceiptLines(receipt).map(renderHtmlLine).join("\n")}
+</body>
+</html>`;
+}
+
+export function renderReceiptPdf(receipt: Receipt): Blob {
+  const lines = buildReceiptLines(receipt);
+  const contentWidth = PAPER_WIDTH - PAPER_MARGIN * 2;
+  // One roll-sized page, as long as the receipt
+  const height = PAPER_MARGIN * 2 + lines.length * LINE_HEIGHT + LINE_HEIGHT;
+  const doc = new jsPDF({ unit: "mm", format: [PAPER_WIDTH, height], orientation: "portrait" });
+  let y = PAPER_MARGIN + LINE_HEIGHT;
+
+  lines.forEach((line) => {
+    switch (line.kind) {
+      case "title":
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(14);
+        doc.text(line.text, PAPER_WIDTH / 2, y, { align: "center" });
+        break;
+      case "center":
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(9);
+        doc.text(line.text, PAPER_WIDTH / 2, y, { align: "center" });
+        break;
+      case "row": {
+        const left = PAPER_MARGIN + (line.indent ? 4 : 0);
+        doc.setFont("helvetica", line.bold ? "bold" : "normal");
+        doc.setFontSize(line.indent ? 8 : 9);
+        if (line.right) doc.text(line.right, PAPER_WIDTH - PAPER_MARGIN, y, { align: "right" });
+        const rightWidth = line.right ? doc.getTextWidth(line.right) + 2 : 0;
+        const [text] = doc.splitTextToSize(line.left, contentWidth - rightWidth - (left - PAPER_MARGIN));
+        doc.text(text, left, y);
+        break;
+      }
+      case "columns": {
+        const columnWidth = contentWidth / line.cells.length;
+        doc.setFont("helvetica", line.bold ? "bold" : "normal");
+        doc.setFontSize(8);
+        line.cells.forEach((cell, index) => {
+          if (index === 0) doc.text(cell, PAPER_MARGIN, y);
+          else doc.text(cell, PAPER_MARGIN + columnWidth * (index + 1), y, { align: "right" });
+        });
+        break;
+      }
+      case "separator":
+        doc.setDrawColor(0);
+        doc.setLineWidth(0.2);
+        doc.setLineDashPattern([1, 1], 0);
+        doc.line(PAPER_MARGIN, y - LINE_HEIGHT / 2, PAPER_WIDTH - PAPER_MARGIN, y - LINE_HEIGHT / 2);
+        break;
+    }
+    y += LINE_HEIGHT;
+  });
+
+  return doc.output("blob");
+}
+
+// Printers' code pages vary, so the text is folded to plain ASCII
+const toPrinterText = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/€/g, "EUR")
+    .replace(/[«»]/g, '"')
+    .replace(/[^\x20-\x7e]/g, "?");
+
+const padRow = (left: string, right: string, width: number) => {
+  const available = width - right.length - (right ? 1 : 0);
+  const rows: string[] = [];
+  let rest = left;
+  while (rest.length > available) {
+    rows.push(rest.slice(0, available));
+    rest = rest.slice(available);
+  }
+  rows.push(rest.padEnd(available) + (right ? ` ${right}` : ""));
+  return rows;
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/**
+ * Raw ESC/POS job for an 80mm thermal printer: initialise, print the
+ * receipt and cut the paper.
+ */
+export function renderReceiptEscPos(receipt: Receipt): Uint8Array {
+  const bytes: number[] = [ESC, 0x40];
+  const write = (text: string) => {
+    for (const char of toPrinterText(text)) bytes.push(char.charCodeAt(0));
+    bytes.push(0x0a);
+  };
+  const align = (mode: 0 | 1 | 2) => bytes.push(ESC, 0x61, mode);
+  const bold = (on: boolean) => bytes.push(ESC, 0x45, on ? 1 : 0);
+
+  buildReceiptLines(receipt).forEach((line) => {
+    switch (line.kind) {
+      case "title":
+        align(1);
+        bold(true);
+        // Double width and height
+        bytes.push(GS, 0x21, 0x11);
+        write(line.text);
+        bytes.push(GS, 0x21, 0x00);
+        bold(false);
+        break;
+      case "center":
+        align(1);
+        write(line.text);
+        break;
+      case "row": {
+        align(0);
+        bold(!!line.bold);
+        // Padded once folded, "€" alone takes three columns as "EUR"
+        const indent = line.indent ? "  " : "";
+        padRow(toPrinterText(indent + line.left), toPrinterText(line.right || ""), ESC_POS_COLUMNS).forEach(write);
+        bold(false);
+        break;
+      }
+      case "columns": {
+        align(0);
+        bold(!!line.bold);
+        const columnWidth = Math.floor(ESC_POS_COLUMNS / line.cells.length);
+        write(
+          line.cells
+            .map(toPrinterText)
+            .map((cell, index) => (index === 0 ? cell.padEnd(columnWidth) : cell.padStart(columnWidth)))
+            .join("")
+        );
+        bold(false);
+        break;
+      }
+      case "separator":
+        align(0);
+        write("-".repeat(ESC_POS_COLUMNS));
+        break;
+    }
+  });
+
+  // Feed past the cutter, then partial cut
+  bytes.push(GS, 0x56, 0x42, 0x03);
+  return new Uint8Array(bytes);
+}
+
+export function renderReceipt(receipt: Receipt, receiptFormat: ReceiptFormat): Blob {
+  switch (receiptFormat) {
+    case "html":
+      return new Blob([renderReceiptHtml(receipt)], { type: "text/html;charset=utf-8" });
+    case "pdf":
+      return renderReceiptPdf(receipt);
+    case "escpos":
+      return new Blob([renderReceiptEscPos(receipt)], { type: "application/octet-stream" });
+  }
+}
+
+export const receiptFileExtensions: Record<ReceiptFormat, string> = {
+  html: "html",
+  pdf: "pdf",
+  escpos: "bin",
+};
+
+/**
+ * Prints the HTML receipt through a hidden frame, so no pop-up is needed.
+ */
+export function printReceipt(receipt: Receipt) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = renderReceiptHtml(receipt);
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Printing is modal in most browsers, give the others time to spool
+    setTimeout(() => frame.remove(), 60000);
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ScannedTable {
+  id: string;
+  table_number: number;
+  restaurant_id: string;
+}
+
+// Deep links printed on the QR codes look like https://<host>/t/<qrToken>
+const DEEP_LINK_PATTERN = /\/t\/([^/?#]+)/;
+
+export function getTableDeepLink(qrToken: string) {
+  return `${window.location.origin}/t/${encodeURIComponent(qrToken)}`;
+}
+
+/**
+ * Extracts the table token from a scanned QR payload. Accepts either a full
+ * deep link or the raw token printed under the code.
+ */
+export function extractQrToken(payload: string): string | null {
+  const trimmed = payload.trim();
+  if (!trimmed) return null;
+
+  const match = trimmed.match(DEEP_LINK_PATTERN);
+  if (match) return decodeURIComponent(match[1]);
+
+  // Anything that looks like a URL but isn't one of our deep links is rejected
+  if (/^[a-z]+:\/\//i.test(trimmed)) return null;
+
+  return trimmed;
+}
+
+export type TableTokenResolution =
+  | { status: "active"; table: ScannedTable }
+  | { status: "inactive" | "revoked" | "unknown" };
+
+export async function resolveTableByToken(qrToken: string): Promise<TableTokenResolution> {
+  const { data, error } = await supabase
+    .rpc("resolve_table_token", { _token: qrToken })
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return { status: "unknown" };
+
+  if (data.status === "active") {
+    return {
+      status: "active",
+      table: {
+        id: data.table_id,
+        table_number: data.table_number,
+        restaurant_id: data.restaurant_id,
+      },
+    };
+  }
+
+  return { status: data.status as "inactive" | "revoked" | "unknown" };
+}
+
+export function storeScannedTable(table: ScannedTable, qrToken: string) {
+  sessionStorage.setItem("tableToken", qrToken);
+  sessionStorage.setItem("tableId", table.id);
+  sessionStorage.setItem("tableNumber", table.table_number.toString());
+  sessionStorage.setItem("restaurantId", table.restaurant_id);
+}
+
+/**
+ * Opens (or joins) the running tab of the scanned table. Requires a guest
+ * session, see ensureGuestSession.
+ */
+export async function joinTableSession(qrToken: string) {
+  const { data, error } = await supabase.rpc("join_table_session", { _table_token: qrToken });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,57 @@
+export interface TaxedItem {
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+export interface TaxedOrder {
+  service_charge: number;
+  order_items: TaxedItem[];
+}
+
+export interface TaxLine {
+  rate: number;
+  // HT
+  base: number;
+  // TVA
+  tax: number;
+  // TTC
+  total: number;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * VAT per rate over a set of orders. Prices are tax-inclusive and each line
+ * keeps the rate it was ordered at; the service charge is taxed like the
+ * lines it applies to. Tips are not subject to VAT and are left out.
+ */
+export const getTaxBreakdown = (orders: TaxedOrder[]): TaxLine[] => {
+  const byRate = new Map<number, { tax: number; total: number }>();
+
+  orders.forEach((order) => {
+    const itemsTotal = order.order_items.reduce((sum, item) => sum + Number(item.subtotal), 0);
+
+    order.order_items.forEach((item) => {
+      const rate = Number(item.tax_rate);
+      const service = itemsTotal > 0 ? (Number(order.service_charge) * Number(item.subtotal)) / itemsTotal : 0;
+      const line = byRate.get(rate) || { tax: 0, total: 0 };
+
+      byRate.set(rate, {
+        tax: line.tax + Number(item.tax_amount) + (service * rate) / (100 + rate),
+        total: line.total + Number(item.subtotal) + service,
+      });
+    });
+  });
+
+  return [...byRate]
+    .sort(([a], [b]) => a - b)
+    .map(([rate, { tax, total }]) => ({
+      rate,
+      base: roundCents(roundCents(total) - roundCents(tax)),
+      tax: roundCents(tax),
+      total: roundCents(total),
+    }));
+};
+
+export const formatTaxRate = (rate: number) => `${Number(rate).toLocaleString("fr-FR")} %`;
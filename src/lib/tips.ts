@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TipPreset {
+  type: "percent" | "fixed";
+  value: number;
+}
+
+export interface CheckoutSettings {
+  tipPresets: TipPreset[];
+  serviceChargePercent: number | null;
+  serviceChargeMinGuests: number | null;
+}
+
+export const formatTipPreset = (preset: TipPreset) =>
+  preset.type === "percent" ? `${preset.value} %` : `${preset.value.toFixed(2)} €`;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Mirrors compute_order_tip, which has the final say
+export const computeTip = (preset: TipPreset | null, subtotal: number) => {
+  if (!preset) return 0;
+  return roundCents(preset.type === "percent" ? (subtotal * preset.value) / 100 : preset.value);
+};
+
+// Mirrors place_order: the service charge applies from a number of guests on
+export const computeServiceCharge = (settings: CheckoutSettings | null, guestCount: number, subtotal: number) => {
+  if (!settings?.serviceChargePercent) return 0;
+  if (guestCount < (settings.serviceChargeMinGuests ?? 1)) return 0;
+  return roundCents((subtotal * settings.serviceChargePercent) / 100);
+};
+
+export async function fetchCheckoutSettings(tableToken: string): Promise<CheckoutSettings | null> {
+  const { data, error } = await supabase
+    .rpc("get_checkout_settings", { _table_token: tableToken })
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    tipPresets: (data.tip_presets as unknown as TipPreset[]) || [],
+    serviceChargePercent: data.service_charge_percent === null ? null : Number(data.service_charge_percent),
+    serviceChargeMinGuests: data.service_charge_min_guests,
+  };
+}
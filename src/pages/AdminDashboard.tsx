@@ -3,12 +3,15 @@ import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { LogOut, ShoppingBag, UtensilsCrossed, Settings, Users, Table } from "lucide-react";
+import { LogOut, ChefHat, ShoppingBag, UtensilsCrossed, Settings, Users, Table, BarChart3, Percent, LayoutList } from "lucide-react";
 import { toast } from "sonner";
 import OrdersManagement from "@/components/admin/OrdersManagement";
 import DishesManagement from "@/components/admin/DishesManagement";
 import TablesManagement from "@/components/admin/TablesManagement";
 import OptionsManagement from "@/components/admin/OptionsManagement";
+import CategoriesManagement from "@/components/admin/CategoriesManagement";
+import DailyReport from "@/components/admin/DailyReport";
+import RestaurantSettings from "@/components/admin/RestaurantSettings";
 
 export default function AdminDashboard() {
   const [loading, setLoading] = useState(true);
@@ -73,6 +76,10 @@ export default function AdminDashboard() {
             <span className="text-sm text-muted-foreground">
               Rôle: <span className="font-medium capitalize">{userRole}</span>
             </span>
+            <Button onClick={() => navigate("/kitchen")} variant="outline" size="sm">
+              <ChefHat className="h-4 w-4 mr-2" />
+              Cuisine
+            </Button>
             <Button onClick={handleLogout} variant="outline" size="sm">
               <LogOut className="h-4 w-4 mr-2" />
               Déconnexion
@@ -83,7 +90,7 @@ export default function AdminDashboard() {
 
       <main className="container mx-auto px-4 py-8">
         <Tabs defaultValue="orders" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="orders">
               <ShoppingBag className="h-4 w-4 mr-2" />
               Commandes
@@ -92,6 +99,10 @@ export default function AdminDashboard() {
               <UtensilsCrossed className="h-4 w-4 mr-2" />
               Plats
             </TabsTrigger>
+            <TabsTrigger value="categories">
+              <LayoutList className="h-4 w-4 mr-2" />
+              Catégories
+            </TabsTrigger>
             <TabsTrigger value="options">
               <Settings className="h-4 w-4 mr-2" />
               Options
@@ -100,16 +111,31 @@ export default function AdminDashboard() {
               <Table className="h-4 w-4 mr-2" />
               Tables
             </TabsTrigger>
+            <TabsTrigger value="report">
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Rapports
+            </TabsTrigger>
+            <TabsTrigger value="settings">
+              <Percent className="h-4 w-4 mr-2" />
+              Paramètres
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="orders">
-            <OrdersManagement />
+            <OrdersManagement
+              canReopen={userRole === "admin"}
+              canRefund={userRole === "admin" || userRole === "manager"}
+            />
           </TabsContent>
 
           <TabsContent value="dishes">
             <DishesManagement />
           </TabsContent>
 
+          <TabsContent value="categories">
+            <CategoriesManagement />
+          </TabsContent>
+
           <TabsContent value="options">
             <OptionsManagement />
           </TabsContent>
@@ -117,6 +143,14 @@ export default function AdminDashboard() {
           <TabsContent value="tables">
             <TablesManagement />
           </TabsContent>
+
+          <TabsContent value="report">
+            <DailyReport />
+          </TabsContent>
+
+          <TabsContent value="settings">
+            <RestaurantSettings />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
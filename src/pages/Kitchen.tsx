@@ -0,0 +1,417 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Check, ChefHat, Maximize, MessageSquare, Minimize, Volume2, VolumeX } from "lucide-react";
+import { toast } from "sonner";
+import { differenceInMinutes } from "date-fns";
+import { cn } from "@/lib/utils";
+import { playAlertSound, unlockAlertSound } from "@/lib/alert-sound";
+import { orderItemStatusLabels, type OrderItemStatus } from "@/lib/order-status";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type { SelectedOption } from "@/pages/Menu";
+import { flattenOptions } from "@/lib/dish-options";
+
+type TicketStatus = Database["public"]["Enums"]["ticket_status"];
+type Station = Tables<"stations">;
+
+// One station's share of an order
+interface KitchenTicket {
+  id: string;
+  status: TicketStatus;
+  created_at: string;
+  station_id: string;
+  stations: { name: string } | null;
+  orders: {
+    id: string;
+    tables: { table_number: number } | null;
+  } | null;
+  order_items: Array<{
+    id: string;
+    quantity: number;
+    status: OrderItemStatus;
+    comment: string | null;
+    options_selected: unknown;
+    dishes: { name: string } | null;
+  }>;
+}
+
+const ticketStatusLabels: Record<TicketStatus, string> = {
+  received: "Reçue",
+  preparing: "En préparation",
+  ready: "Prête",
+};
+
+// Ready tickets leave the screen; the order is ready once all its tickets are
+const ACTIVE_STATUSES: TicketStatus[] = ["received", "preparing"];
+
+const nextStatus: Partial<Record<TicketStatus, { status: TicketStatus; label: string }>> = {
+  received: { status: "preparing", label: "Commencer" },
+  preparing: { status: "ready", label: "Prête" },
+};
+
+const ALL_STATIONS = "all";
+const STATION_STORAGE_KEY = "kitchenStation";
+
+// Minutes after which a ticket turns amber, then red
+const LATE_AFTER_MINUTES = 10;
+const VERY_LATE_AFTER_MINUTES = 20;
+
+const getElapsedColor = (minutes: number) => {
+  if (minutes >= VERY_LATE_AFTER_MINUTES) return "border-red-600 bg-red-50";
+  if (minutes >= LATE_AFTER_MINUTES) return "border-amber-500 bg-amber-50";
+  return "border-green-500 bg-background";
+};
+
+export default function Kitchen() {
+  const [loading, setLoading] = useState(true);
+  const [authorized, setAuthorized] = useState(false);
+  const [tickets, setTickets] = useState<KitchenTicket[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  // Each screen remembers the station it's mounted at
+  const [stationId, setStationId] = useState(
+    () => localStorage.getItem(STATION_STORAGE_KEY) || ALL_STATIONS
+  );
+  const [now, setNow] = useState(() => new Date());
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  // Read from the realtime callback, which is only subscribed once
+  const soundEnabledRef = useRef(false);
+  const stationIdRef = useRef(stationId);
+  const navigate = useNavigate();
+
+  const checkAuth = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        navigate("/admin/login");
+        return;
+      }
+
+      const { data: roleData } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .in("role", ["admin", "manager", "server"])
+        .limit(1)
+        .maybeSingle();
+
+      if (!roleData) {
+        toast.error("Accès non autorisé");
+        navigate("/admin/login");
+        return;
+      }
+
+      setAuthorized(true);
+    } catch (error) {
+      navigate("/admin/login");
+    } finally {
+      setLoading(false);
+    }
+  }, [navigate]);
+
+  useEffect(() => {
+    checkAuth();
+  }, [checkAuth]);
+
+  const fetchTickets = useCallback(async () => {
+    let query = supabase
+      .from("order_tickets")
+      .select(`
+        id, status, created_at, station_id,
+        stations (name),
+        orders (id, tables (table_number)),
+        order_items (id, quantity, status, comment, options_selected, dishes (name))
+      `)
+      .in("status", ACTIVE_STATUSES)
+      .order("created_at", { ascending: true });
+
+    if (stationId !== ALL_STATIONS) query = query.eq("station_id", stationId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching kitchen tickets:", error);
+      toast.error("Erreur lors du chargement des commandes");
+      return;
+    }
+    setTickets(data || []);
+  }, [stationId]);
+
+  const fetchStations = async () => {
+    const { data } = await supabase
+      .from("stations")
+      .select("*")
+      .order("display_order", { ascending: true });
+    if (data) setStations(data);
+  };
+
+  useEffect(() => {
+    if (authorized) fetchStations();
+  }, [authorized]);
+
+  useEffect(() => {
+    if (!authorized) return;
+
+    fetchTickets();
+
+    const channel = supabase
+      .channel("kitchen-tickets")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "order_tickets" },
+        (payload) => {
+          const station = stationIdRef.current;
+          if (soundEnabledRef.current && (station === ALL_STATIONS || payload.new.station_id === station)) {
+            playAlertSound();
+          }
+          fetchTickets();
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "order_tickets" },
+        () => fetchTickets()
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "order_items" },
+        () => fetchTickets()
+      )
+      .subscribe();
+
+    // Keeps the elapsed times and their colours current
+    const timer = setInterval(() => setNow(new Date()), 30000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(timer);
+    };
+  }, [authorized, fetchTickets]);
+
+  useEffect(() => {
+    const onFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", onFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", onFullscreenChange);
+  }, []);
+
+  const toggleSound = async () => {
+    if (soundEnabled) {
+      soundEnabledRef.current = false;
+      setSoundEnabled(false);
+      return;
+    }
+
+    try {
+      await unlockAlertSound();
+      soundEnabledRef.current = true;
+      setSoundEnabled(true);
+      playAlertSound();
+    } catch (error) {
+      console.error("Error enabling sound:", error);
+      toast.error("Impossible d'activer le son");
+    }
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen();
+  };
+
+  const changeStation = (value: string) => {
+    localStorage.setItem(STATION_STORAGE_KEY, value);
+    stationIdRef.current = value;
+    setStationId(value);
+  };
+
+  const bumpTicket = async (ticket: KitchenTicket) => {
+    const next = nextStatus[ticket.status];
+    if (!next) return;
+
+    // Update right away, a kitchen can't wait for the round trip
+    setTickets((prev) =>
+      ACTIVE_STATUSES.includes(next.status)
+        ? prev.map((t) => (t.id === ticket.id ? { ...t, status: next.status } : t))
+        : prev.filter((t) => t.id !== ticket.id)
+    );
+
+    const { error } = await supabase
+      .from("order_tickets")
+      .update({ status: next.status })
+      .eq("id", ticket.id);
+
+    if (error) {
+      toast.error("Erreur lors de la mise à jour");
+      fetchTickets();
+    }
+  };
+
+  // A single line can be sent ahead of the rest of its ticket
+  const toggleItemDone = async (ticket: KitchenTicket, item: KitchenTicket["order_items"][number]) => {
+    const status: OrderItemStatus = item.status === "done" ? "cooking" : "done";
+
+    setTickets((prev) =>
+      prev.map((t) =>
+        t.id === ticket.id
+          ? { ...t, order_items: t.order_items.map((i) => (i.id === item.id ? { ...i, status } : i)) }
+          : t
+      )
+    );
+
+    const { error } = await supabase.from("order_items").update({ status }).eq("id", item.id);
+
+    if (error) {
+      toast.error("Erreur lors de la mise à jour");
+      fetchTickets();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">Chargement...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted">
+      <header className="border-b bg-background">
+        <div className="px-4 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/admin")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <ChefHat className="h-6 w-6" />
+              Cuisine
+            </h1>
+            <Badge variant="secondary" className="text-base">
+              {tickets.length} en cours
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={stationId} onValueChange={changeStation}>
+              <SelectTrigger className="w-48 h-11 text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATIONS}>Tous les postes</SelectItem>
+                {stations.map((station) => (
+                  <SelectItem key={station.id} value={station.id}>
+                    {station.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant={soundEnabled ? "default" : "outline"} size="lg" onClick={toggleSound}>
+              {soundEnabled ? <Volume2 className="h-5 w-5 mr-2" /> : <VolumeX className="h-5 w-5 mr-2" />}
+              {soundEnabled ? "Son activé" : "Activer le son"}
+            </Button>
+            <Button variant="outline" size="lg" onClick={toggleFullscreen}>
+              {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="p-4">
+        {tickets.length === 0 ? (
+          <div className="text-center py-24 text-2xl text-muted-foreground">
+            Aucune commande en attente
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
+            {tickets.map((ticket) => {
+              const elapsed = differenceInMinutes(now, new Date(ticket.created_at));
+              const next = nextStatus[ticket.status];
+
+              return (
+                <div
+                  key={ticket.id}
+                  className={cn("rounded-lg border-4 flex flex-col", getElapsedColor(elapsed))}
+                >
+                  <div className="p-4 flex items-start justify-between border-b">
+                    <div>
+                      <p className="text-3xl font-bold">Table {ticket.orders?.tables?.table_number}</p>
+                      <p className="text-sm text-muted-foreground font-mono">
+                        #{ticket.orders?.id.slice(0, 8).toUpperCase()}
+                        {stationId === ALL_STATIONS && ` · ${ticket.stations?.name}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-2xl font-bold">{elapsed} min</p>
+                      <p className="text-sm font-medium">{ticketStatusLabels[ticket.status]}</p>
+                    </div>
+                  </div>
+
+                  <ul className="p-4 space-y-3 flex-1">
+                    {ticket.order_items.map((item) => {
+                      const options = (item.options_selected as SelectedOption[] | null) || [];
+                      const voided = item.status === "voided";
+                      const finished = item.status === "done" || item.status === "served";
+                      return (
+                        <li key={item.id} className={cn((voided || finished) && "opacity-50")}>
+                          <button
+                            type="button"
+                            className="w-full flex items-center justify-between gap-2 text-left disabled:cursor-default"
+                            disabled={voided || item.status === "served"}
+                            onClick={() => toggleItemDone(ticket, item)}
+                          >
+                            <span className={cn("text-xl font-semibold", voided && "line-through")}>
+                              <span className="mr-2">{item.quantity}×</span>
+                              {item.dishes?.name}
+                            </span>
+                            {finished ? (
+                              <Check className="h-6 w-6 text-green-600 shrink-0" />
+                            ) : (
+                              voided && (
+                                <span className="text-sm font-medium">{orderItemStatusLabels[item.status]}</span>
+                              )
+                            )}
+                          </button>
+                          {options.length > 0 && (
+                            <ul className="ml-8 text-lg">
+                              {flattenOptions(options).map(({ option, depth }) => (
+                                <li key={option.optionId} style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                                  <span className="text-muted-foreground">{option.groupName} :</span>{" "}
+                                  <span className="font-semibold">
+                                    {(option.quantity ?? 1) > 1 && `${option.quantity}× `}
+                                    {option.optionName}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {item.comment && (
+                            <p className="ml-8 mt-1 px-2 py-1 rounded bg-yellow-200 text-yellow-900 text-lg font-semibold flex items-start gap-2">
+                              <MessageSquare className="h-5 w-5 mt-0.5 shrink-0" />
+                              {item.comment}
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+
+                  {next && (
+                    <Button
+                      className="h-16 text-xl rounded-t-none"
+                      variant={ticket.status === "preparing" ? "default" : "secondary"}
+                      onClick={() => bumpTicket(ticket)}
+                    >
+                      {next.label}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
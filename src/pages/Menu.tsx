@@ -2,11 +2,19 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ShoppingCart, ArrowLeft } from "lucide-react";
+import { ShoppingCart, ArrowLeft, Receipt } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import DishCard from "@/components/DishCard";
 import CartSheet from "@/components/CartSheet";
+import { useCart } from "@/hooks/use-cart";
+import {
+  DEFAULT_TIME_ZONE,
+  fetchMenuCategories,
+  fetchRestaurantTimeZone,
+  getMenuSections,
+  type MenuCategory,
+} from "@/lib/menu-categories";
 import DishCustomizationDialog from "@/components/DishCustomizationDialog";
 
 interface Dish {
@@ -24,7 +32,12 @@ export interface SelectedOption {
   groupName: string;
   optionId: string;
   optionName: string;
+  // What the line costs in all, the units included in the dish being free
   priceModifier: number;
+  // Units taken, 1 when missing
+  quantity?: number;
+  // Choices made in the groups this option opens
+  children?: SelectedOption[];
 }
 
 export interface CartItem extends Dish {
@@ -35,13 +48,16 @@ export interface CartItem extends Dish {
 
 const Menu = () => {
   const [dishes, setDishes] = useState<Dish[]>([]);
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [now, setNow] = useState(() => new Date());
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedDish, setSelectedDish] = useState<Dish | null>(null);
   const [isCustomizationOpen, setIsCustomizationOpen] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { totalItems } = useCart();
 
   const tableNumber = sessionStorage.getItem("tableNumber");
   const restaurantId = sessionStorage.getItem("restaurantId");
@@ -61,17 +77,29 @@ const Menu = () => {
     fetchDishes();
   }, [restaurantId]);
 
+  // Some categories are only served at certain hours
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   const fetchDishes = async () => {
     try {
-      const { data, error } = await supabase
-        .from("dishes")
-        .select("*")
-        .eq("is_available", true)
-        .order("category", { ascending: true })
-        .order("name", { ascending: true });
+      const [{ data, error }, menuCategories, restaurantTimeZone] = await Promise.all([
+        supabase
+          .from("dishes")
+          .select("*")
+          .eq("restaurant_id", restaurantId)
+          .eq("is_available", true)
+          .order("name", { ascending: true }),
+        fetchMenuCategories(restaurantId!),
+        fetchRestaurantTimeZone(restaurantId!),
+      ]);
 
       if (error) throw error;
       setDishes(data || []);
+      setCategories(menuCategories);
+      setTimeZone(restaurantTimeZone);
     } catch (error) {
       console.error("Error fetching dishes:", error);
       toast({
@@ -89,48 +117,7 @@ const Menu = () => {
     setIsCustomizationOpen(true);
   };
 
-  const addToCart = (
-    dish: Dish,
-    selectedOptions: SelectedOption[] = [],
-    comment: string = ""
-  ) => {
-    setCart((prev) => [
-      ...prev,
-      {
-        ...dish,
-        quantity: 1,
-        selectedOptions,
-        comment: comment || undefined,
-      },
-    ]);
-
-    toast({
-      title: "Ajouté au panier",
-      description: `${dish.name} a été ajouté`,
-    });
-  };
-
-  const updateCartItem = (itemIndex: number, quantity: number, comment?: string) => {
-    if (quantity === 0) {
-      setCart((prev) => prev.filter((_, idx) => idx !== itemIndex));
-    } else {
-      setCart((prev) =>
-        prev.map((item, idx) =>
-          idx === itemIndex ? { ...item, quantity, comment } : item
-        )
-      );
-    }
-  };
-
-  const removeFromCart = (itemIndex: number) => {
-    setCart((prev) => prev.filter((_, idx) => idx !== itemIndex));
-  };
-
-  const getTotalItems = () => {
-    return cart.reduce((sum, item) => sum + item.quantity, 0);
-  };
-
-  const categories = [...new Set(dishes.map((dish) => dish.category))];
+  const sections = getMenuSections(categories, dishes, timeZone, now);
 
   return (
     <div className="min-h-screen bg-background pb-24">
@@ -151,20 +138,30 @@ const Menu = () => {
             <p className="text-sm text-muted-foreground">Table {tableNumber}</p>
           </div>
 
-          <Button
-            variant="default"
-            size="sm"
-            onClick={() => setIsCartOpen(true)}
-            className="relative"
-          >
-            <ShoppingCart className="h-4 w-4 mr-2" />
-            Panier
-            {getTotalItems() > 0 && (
-              <Badge className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0 flex items-center justify-center">
-                {getTotalItems()}
-              </Badge>
-            )}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate("/tab")}
+            >
+              <Receipt className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Addition</span>
+            </Button>
+            <Button
+              variant="default"
+              size="sm"
+              onClick={() => setIsCartOpen(true)}
+              className="relative"
+            >
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Panier
+              {totalItems > 0 && (
+                <Badge className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0 flex items-center justify-center">
+                  {totalItems}
+                </Badge>
+              )}
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -176,19 +173,20 @@ const Menu = () => {
           </div>
         ) : (
           <div className="space-y-8">
-            {categories.map((category) => (
-              <section key={category}>
-                <h2 className="text-2xl font-bold mb-4 capitalize">{category}</h2>
+            {sections.map((section) => (
+              <section key={section.name}>
+                <h2 className="text-2xl font-bold mb-4 capitalize">
+                  {section.emoji && <span className="mr-2">{section.emoji}</span>}
+                  {section.name}
+                </h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {dishes
-                    .filter((dish) => dish.category === category)
-                    .map((dish) => (
-                      <DishCard
-                        key={dish.id}
-                        dish={dish}
-                        onAddToCart={handleDishClick}
-                      />
-                    ))}
+                  {section.dishes.map((dish) => (
+                    <DishCard
+                      key={dish.id}
+                      dish={dish}
+                      onAddToCart={handleDishClick}
+                    />
+                  ))}
                 </div>
               </section>
             ))}
@@ -201,16 +199,12 @@ const Menu = () => {
         dish={selectedDish}
         isOpen={isCustomizationOpen}
         onClose={() => setIsCustomizationOpen(false)}
-        onAddToCart={addToCart}
       />
 
       {/* Cart Sheet */}
       <CartSheet
-        cart={cart}
         isOpen={isCartOpen}
         onClose={() => setIsCartOpen(false)}
-        onUpdateItem={updateCartItem}
-        onRemoveItem={removeFromCart}
       />
     </div>
   );
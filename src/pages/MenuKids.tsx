@@ -6,7 +6,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import DishCustomizationDialogKids from "@/components/DishCustomizationDialogKids";
 import CartSheet from "@/components/CartSheet";
-import { CartItem, SelectedOption } from "@/pages/Menu";
+import { useCart } from "@/hooks/use-cart";
+import {
+  DEFAULT_TIME_ZONE,
+  fetchMenuCategories,
+  fetchRestaurantTimeZone,
+  getMenuSections,
+  type MenuCategory,
+} from "@/lib/menu-categories";
 
 interface Dish {
   id: string;
@@ -20,13 +27,16 @@ interface Dish {
 
 const MenuKids = () => {
   const [dishes, setDishes] = useState<Dish[]>([]);
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [now, setNow] = useState(() => new Date());
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedDish, setSelectedDish] = useState<Dish | null>(null);
   const [isCustomizationOpen, setIsCustomizationOpen] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { totalItems } = useCart();
 
   const tableNumber = sessionStorage.getItem("tableNumber");
   const restaurantId = sessionStorage.getItem("restaurantId");
@@ -38,6 +48,13 @@ const MenuKids = () => {
     "boisson": "from-[#87CEEB] to-[#4682B4]",
   };
 
+  const categoryEmojis = {
+    "hamburger": "🍔",
+    "pizza": "🍕",
+    "gâteau": "🧁",
+    "boisson": "🥤",
+  };
+
   const categoryBorders = {
     "hamburger": "border-[#8B4513]",
     "pizza": "border-[#DC143C]",
@@ -58,17 +75,29 @@ const MenuKids = () => {
     fetchDishes();
   }, [restaurantId]);
 
+  // Some categories are only served at certain hours
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   const fetchDishes = async () => {
     try {
-      const { data, error } = await supabase
-        .from("dishes")
-        .select("*")
-        .eq("is_available", true)
-        .order("category", { ascending: true })
-        .order("name", { ascending: true });
+      const [{ data, error }, menuCategories, restaurantTimeZone] = await Promise.all([
+        supabase
+          .from("dishes")
+          .select("*")
+          .eq("restaurant_id", restaurantId)
+          .eq("is_available", true)
+          .order("name", { ascending: true }),
+        fetchMenuCategories(restaurantId!),
+        fetchRestaurantTimeZone(restaurantId!),
+      ]);
 
       if (error) throw error;
       setDishes(data || []);
+      setCategories(menuCategories);
+      setTimeZone(restaurantTimeZone);
     } catch (error) {
       console.error("Error fetching dishes:", error);
       toast({
@@ -86,47 +115,6 @@ const MenuKids = () => {
     setIsCustomizationOpen(true);
   };
 
-  const addToCart = (
-    dish: Dish,
-    selectedOptions: SelectedOption[] = [],
-    comment: string = ""
-  ) => {
-    setCart((prev) => [
-      ...prev,
-      {
-        ...dish,
-        quantity: 1,
-        selectedOptions,
-        comment: comment || undefined,
-      },
-    ]);
-
-    toast({
-      title: "Ajouté au panier",
-      description: `${dish.name} a été ajouté`,
-    });
-  };
-
-  const updateCartItem = (itemIndex: number, quantity: number, comment?: string) => {
-    if (quantity === 0) {
-      setCart((prev) => prev.filter((_, idx) => idx !== itemIndex));
-    } else {
-      setCart((prev) =>
-        prev.map((item, idx) =>
-          idx === itemIndex ? { ...item, quantity, comment } : item
-        )
-      );
-    }
-  };
-
-  const removeFromCart = (itemIndex: number) => {
-    setCart((prev) => prev.filter((_, idx) => idx !== itemIndex));
-  };
-
-  const getTotalItems = () => {
-    return cart.reduce((sum, item) => sum + item.quantity, 0);
-  };
-
   const getCategoryKey = (category: string): keyof typeof categoryColors => {
     const normalized = category.toLowerCase();
     if (normalized.includes("burger")) return "hamburger";
@@ -136,7 +124,7 @@ const MenuKids = () => {
     return "hamburger";
   };
 
-  const categories = [...new Set(dishes.map((dish) => dish.category))];
+  const sections = getMenuSections(categories, dishes, timeZone, now);
 
   return (
     <div className="min-h-screen kawaii-gradient pb-24 relative overflow-hidden">
@@ -178,29 +166,25 @@ const MenuKids = () => {
           </div>
         ) : (
           <div className="grid grid-cols-2 gap-6 max-w-2xl mx-auto">
-            {categories.map((category) => {
-              const categoryKey = getCategoryKey(category);
-              const dish = dishes.find((d) => d.category === category);
-              if (!dish) return null;
+            {sections.map((section) => {
+              const categoryKey = getCategoryKey(section.name);
+              const dish = section.dishes[0];
 
               return (
                 <button
-                  key={category}
+                  key={section.name}
                   onClick={() => handleDishClick(dish)}
                   className="group"
                 >
                   <div className="relative">
                     <div className={`w-full aspect-square rounded-full bg-gradient-to-br ${categoryColors[categoryKey]} p-2 border-8 ${categoryBorders[categoryKey]} shadow-2xl transform transition-all duration-300 group-hover:scale-110 group-hover:rotate-6`}>
                       <div className="w-full h-full rounded-full bg-white/30 flex items-center justify-center text-7xl">
-                        {categoryKey === "hamburger" && "🍔"}
-                        {categoryKey === "pizza" && "🍕"}
-                        {categoryKey === "gâteau" && "🧁"}
-                        {categoryKey === "boisson" && "🥤"}
+                        {section.emoji || categoryEmojis[categoryKey]}
                       </div>
                     </div>
                     <div className="mt-3 bg-white rounded-full px-4 py-2 shadow-lg">
                       <p className="font-bold text-lg text-orange-600 uppercase">
-                        {category}
+                        {section.name}
                       </p>
                     </div>
                   </div>
@@ -212,7 +196,7 @@ const MenuKids = () => {
       </main>
 
       {/* Cart Button */}
-      {getTotalItems() > 0 && (
+      {totalItems > 0 && (
         <div className="fixed bottom-6 left-0 right-0 flex justify-center px-4 z-50">
           <Button
             onClick={() => setIsCartOpen(true)}
@@ -222,7 +206,7 @@ const MenuKids = () => {
             <ShoppingCart className="h-6 w-6 mr-3" />
             VOIR MON PANIER 🛒
             <span className="ml-3 bg-white text-purple-600 rounded-full w-8 h-8 flex items-center justify-center">
-              {getTotalItems()}
+              {totalItems}
             </span>
           </Button>
         </div>
@@ -233,16 +217,12 @@ const MenuKids = () => {
         dish={selectedDish}
         isOpen={isCustomizationOpen}
         onClose={() => setIsCustomizationOpen(false)}
-        onAddToCart={addToCart}
       />
 
       {/* Cart Sheet */}
       <CartSheet
-        cart={cart}
         isOpen={isCartOpen}
         onClose={() => setIsCartOpen(false)}
-        onUpdateItem={updateCartItem}
-        onRemoveItem={removeFromCart}
       />
     </div>
   );
@@ -0,0 +1,373 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, ChefHat, Clock, Home, UtensilsCrossed, Bell, Receipt, Download, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+import OrderExtras from "@/components/OrderExtras";
+import TaxBreakdown from "@/components/TaxBreakdown";
+import { fetchReceipt, getReceiptNumber, receiptFileExtensions, renderReceipt, type ReceiptFormat } from "@/lib/receipts";
+import { downloadBlob } from "@/lib/qr-sheet";
+import { isOrderValidationError } from "@/lib/orders";
+import { orderItemStatusColors, orderItemStatusLabels, type OrderItemStatus } from "@/lib/order-status";
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+
+interface TrackedOrder {
+  id: string;
+  status: OrderStatus;
+  total: number;
+  tip: number;
+  service_charge: number;
+  created_at: string;
+  order_items: Array<{
+    id: string;
+    quantity: number;
+    status: OrderItemStatus;
+    subtotal: number;
+    tax_rate: number;
+    tax_amount: number;
+    comment: string | null;
+    dishes: { name: string } | null;
+  }>;
+  order_status_events: Array<{
+    status: OrderStatus;
+    created_at: string;
+  }>;
+}
+
+const steps: Array<{ status: OrderStatus; label: string; icon: typeof Clock }> = [
+  { status: "received", label: "Reçue", icon: CheckCircle },
+  { status: "preparing", label: "En préparation", icon: ChefHat },
+  { status: "ready", label: "Prête", icon: Bell },
+  { status: "served", label: "Servie", icon: UtensilsCrossed },
+];
+
+const statusOrder: OrderStatus[] = ["received", "preparing", "ready", "served", "paid"];
+
+// Same grace period as the cancel_order RPC, which has the final say
+const CANCEL_GRACE_MS = 2 * 60 * 1000;
+
+const OrderTracking = () => {
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [waitMinutes, setWaitMinutes] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [downloadingReceipt, setDownloadingReceipt] = useState<ReceiptFormat | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const tableNumber = sessionStorage.getItem("tableNumber");
+
+  const fetchOrder = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("orders")
+        .select(`
+          id, status, total, tip, service_charge, created_at,
+          order_items (id, quantity, status, subtotal, tax_rate, tax_amount, comment, dishes (name)),
+          order_status_events (status, created_at)
+        `)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setOrder(data);
+
+      if (data && (data.status === "received" || data.status === "preparing")) {
+        const { data: minutes } = await supabase.rpc("estimate_order_wait", { _order_id: id });
+        setWaitMinutes(minutes ?? null);
+      } else {
+        setWaitMinutes(null);
+      }
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de charger votre commande",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, toast]);
+
+  useEffect(() => {
+    fetchOrder();
+
+    // RLS only lets the guests of the order's table session receive its changes
+    const channel = supabase
+      .channel(`order-${id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "orders",
+          filter: `id=eq.${id}`,
+        },
+        () => fetchOrder()
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "order_items",
+          filter: `order_id=eq.${id}`,
+        },
+        () => fetchOrder()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchOrder]);
+
+  const cancelDeadline = order ? new Date(order.created_at).getTime() + CANCEL_GRACE_MS : 0;
+
+  // Hides the cancel button once the grace period is over
+  useEffect(() => {
+    if (order?.status !== "received" || cancelDeadline <= Date.now()) return;
+    const timer = setTimeout(() => setNow(Date.now()), cancelDeadline - Date.now());
+    return () => clearTimeout(timer);
+  }, [order?.status, cancelDeadline]);
+
+  const handleCancel = async () => {
+    if (!id || !confirm("Annuler cette commande ?")) return;
+
+    setIsCancelling(true);
+    try {
+      const { error } = await supabase.rpc("cancel_order", { _order_id: id });
+      if (error) throw error;
+      toast({ title: "Commande annulée" });
+      fetchOrder();
+    } catch (error) {
+      console.error("Error cancelling order:", error);
+      toast({
+        title: "Erreur",
+        description: isOrderValidationError(error)
+          ? (error as Error).message
+          : "Impossible d'annuler la commande",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDownloadReceipt = async (receiptFormat: ReceiptFormat) => {
+    if (!id) return;
+    setDownloadingReceipt(receiptFormat);
+    try {
+      const receipt = await fetchReceipt(id);
+      downloadBlob(
+        renderReceipt(receipt, receiptFormat),
+        `recu-${getReceiptNumber(receipt)}.${receiptFileExtensions[receiptFormat]}`
+      );
+    } catch (error) {
+      console.error("Error generating receipt:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de générer le reçu",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingReceipt(null);
+    }
+  };
+
+  const getStepTime = (status: OrderStatus) => {
+    const event = order?.order_status_events
+      .filter((e) => e.status === status)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    return event ? format(new Date(event.created_at), "HH:mm", { locale: fr }) : null;
+  };
+
+  const handleGoHome = () => {
+    sessionStorage.clear();
+    navigate("/table-scan");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Chargement de votre commande...</p>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <CardTitle>Commande introuvable</CardTitle>
+            <CardDescription>
+              Cette commande n'existe pas ou a été passée depuis un autre appareil.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate("/table-scan")} className="w-full">
+              Retour
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const currentIndex = statusOrder.indexOf(order.status);
+  // Per-dish progress only matters while the kitchen is still at it
+  const liveItems = order.order_items.filter((item) => item.status !== "voided");
+  const readyItems = liveItems.filter((item) => item.status === "done" || item.status === "served").length;
+  const showItemProgress = order.status === "received" || order.status === "preparing";
+  const canCancel = order.status === "received" && now < cancelDeadline;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-secondary/10 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-large">
+        <CardHeader className="text-center space-y-2">
+          <CardTitle className="text-3xl">Suivi de commande</CardTitle>
+          <CardDescription className="text-base">
+            Commande{" "}
+            <span className="font-mono font-bold">{order.id.slice(0, 8).toUpperCase()}</span>
+            {tableNumber && <> · Table {tableNumber}</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {waitMinutes !== null && (
+            <div className="p-4 bg-primary/10 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Temps d'attente estimé</p>
+              <p className="text-2xl font-bold text-primary">~ {waitMinutes} min</p>
+            </div>
+          )}
+
+          {order.status === "cancelled" ? (
+            <div className="p-4 bg-destructive/10 rounded-lg text-center flex items-center justify-center gap-2">
+              <XCircle className="h-5 w-5 text-destructive" />
+              <p className="font-medium">Cette commande a été annulée</p>
+            </div>
+          ) : (
+            <ol className="space-y-4">
+              {steps.map((step, index) => {
+                const reached = index <= currentIndex;
+                const Icon = step.icon;
+                const time = getStepTime(step.status);
+                return (
+                  <li key={step.status} className="flex items-center gap-4">
+                    <div
+                      className={cn(
+                        "w-10 h-10 rounded-full flex items-center justify-center shrink-0",
+                        reached ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+                      )}
+                    >
+                      <Icon className="h-5 w-5" />
+                    </div>
+                    <span className={cn("flex-1 font-medium", !reached && "text-muted-foreground")}>
+                      {step.label}
+                    </span>
+                    {reached && time && (
+                      <span className="text-sm text-muted-foreground">{time}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {canCancel && (
+            <Button variant="outline" className="w-full" disabled={isCancelling} onClick={handleCancel}>
+              <XCircle className="mr-2 h-4 w-4" />
+              Annuler la commande
+            </Button>
+          )}
+
+          <div className="border-t pt-4 space-y-2">
+            {showItemProgress && (
+              <p className="text-sm text-muted-foreground">
+                {readyItems} plat{readyItems > 1 ? "s" : ""} prêt{readyItems > 1 ? "s" : ""} sur {liveItems.length}
+              </p>
+            )}
+            {order.order_items.map((item) => (
+              <div key={item.id} className="flex justify-between items-center gap-2 text-sm">
+                <span className={cn(item.status === "voided" && "line-through text-muted-foreground")}>
+                  {item.quantity}x {item.dishes?.name}
+                </span>
+                <span className="flex items-center gap-2">
+                  {showItemProgress && (
+                    <span
+                      className={cn(
+                        "rounded-full px-2 py-0.5 text-xs text-white",
+                        orderItemStatusColors[item.status]
+                      )}
+                    >
+                      {orderItemStatusLabels[item.status]}
+                    </span>
+                  )}
+                  {Number(item.subtotal).toFixed(2)} €
+                </span>
+              </div>
+            ))}
+            <OrderExtras serviceCharge={order.service_charge} tip={order.tip} />
+            <div className="flex justify-between font-bold pt-2">
+              <span>Total TTC</span>
+              <span>{Number(order.total).toFixed(2)} €</span>
+            </div>
+            <TaxBreakdown orders={[{ ...order, order_items: liveItems }]} />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              {order.status === "paid" ? "Votre reçu" : "Votre note"}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                disabled={downloadingReceipt !== null}
+                onClick={() => handleDownloadReceipt("pdf")}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                PDF
+              </Button>
+              <Button
+                variant="outline"
+                disabled={downloadingReceipt !== null}
+                onClick={() => handleDownloadReceipt("html")}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Page web
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Button onClick={() => navigate("/menu")} className="w-full h-12">
+              Commander d'autres plats
+            </Button>
+            <Button onClick={() => navigate("/tab")} variant="secondary" className="w-full h-12">
+              <Receipt className="mr-2 h-4 w-4" />
+              Voir l'addition de la table
+            </Button>
+            <Button onClick={handleGoHome} variant="outline" className="w-full h-12">
+              <Home className="mr-2 h-4 w-4" />
+              Terminer
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OrderTracking;
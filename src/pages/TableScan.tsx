@@ -1,74 +1,123 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { QrCode, ArrowRight } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { QrCode, ArrowRight, Camera } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import QrScanner, { isQrScannerSupported } from "@/components/QrScanner";
+import { ensureGuestSession } from "@/lib/guest-session";
+import {
+  extractQrToken,
+  joinTableSession,
+  resolveTableByToken,
+  storeScannedTable,
+} from "@/lib/tables";
+
+const rejectionMessages = {
+  inactive: "Cette table n'est pas ouverte pour le moment, merci de vous adresser au personnel",
+  revoked: "Ce QR code n'est plus valide, merci de demander un nouveau code au personnel",
+  unknown: "Ce QR code ne correspond à aucune table",
+};
 
 const TableScan = () => {
-  const [tableNumber, setTableNumber] = useState("");
+  const { qrToken } = useParams<{ qrToken: string }>();
+  const [manualCode, setManualCode] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const handleTableSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!tableNumber) {
-      toast({
-        title: "Erreur",
-        description: "Veuillez entrer un numéro de table",
-        variant: "destructive",
-      });
-      return;
-    }
+  const validateToken = useCallback(
+    async (token: string) => {
+      setIsValidating(true);
+
+      try {
+        const resolution = await resolveTableByToken(token);
 
-    setIsValidating(true);
+        if (resolution.status !== "active") {
+          toast({
+            title: "QR code invalide",
+            description: rejectionMessages[resolution.status],
+            variant: "destructive",
+          });
+          navigate("/table-scan", { replace: true });
+          return;
+        }
 
-    try {
-      const { data: table, error } = await supabase
-        .from("tables")
-        .select("id, table_number, restaurant_id, is_active")
-        .eq("table_number", parseInt(tableNumber))
-        .eq("is_active", true)
-        .maybeSingle();
+        const { table } = resolution;
+        storeScannedTable(table, token);
+        await ensureGuestSession();
+        await joinTableSession(token);
 
-      if (error) throw error;
+        toast({
+          title: "Table validée !",
+          description: `Bienvenue à la table ${table.table_number}`,
+        });
 
-      if (!table) {
+        navigate("/menu", { replace: true });
+      } catch (error) {
+        console.error("Error validating table:", error);
         toast({
-          title: "Table introuvable",
-          description: "Ce numéro de table n'existe pas ou n'est pas active",
+          title: "Erreur",
+          description: "Une erreur est survenue lors de la validation",
           variant: "destructive",
         });
+      } finally {
         setIsValidating(false);
-        return;
       }
+    },
+    [navigate, toast]
+  );
+
+  // Deep link from a printed QR code: /t/:qrToken
+  useEffect(() => {
+    if (qrToken) validateToken(qrToken);
+  }, [qrToken, validateToken]);
 
-      // Store table info in sessionStorage
-      sessionStorage.setItem("tableId", table.id);
-      sessionStorage.setItem("tableNumber", table.table_number.toString());
-      sessionStorage.setItem("restaurantId", table.restaurant_id);
+  const handleScanned = useCallback(
+    (payload: string) => {
+      setIsScanning(false);
+      const token = extractQrToken(payload);
+      if (!token) {
+        toast({
+          title: "QR code invalide",
+          description: "Ce QR code n'a pas été généré pour une table",
+          variant: "destructive",
+        });
+        return;
+      }
+      validateToken(token);
+    },
+    [toast, validateToken]
+  );
 
+  const handleScanError = useCallback(
+    (message: string) => {
+      setIsScanning(false);
       toast({
-        title: "Table validée !",
-        description: `Bienvenue à la table ${table.table_number}`,
+        title: "Erreur",
+        description: message,
+        variant: "destructive",
       });
+    },
+    [toast]
+  );
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
 
-      // Navigate to menu
-      navigate("/menu");
-    } catch (error) {
-      console.error("Error validating table:", error);
+    const token = extractQrToken(manualCode);
+    if (!token) {
       toast({
         title: "Erreur",
-        description: "Une erreur est survenue lors de la validation",
+        description: "Veuillez entrer le code indiqué sous le QR code",
         variant: "destructive",
       });
-    } finally {
-      setIsValidating(false);
+      return;
     }
+
+    validateToken(token);
   };
 
   return (
@@ -80,38 +129,70 @@ const TableScan = () => {
           </div>
           <CardTitle className="text-3xl">Bienvenue !</CardTitle>
           <CardDescription className="text-base">
-            Entrez le numéro de votre table pour commencer votre commande
+            Scannez le QR code de votre table pour commencer votre commande
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleTableSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <label htmlFor="tableNumber" className="text-sm font-medium">
-                Numéro de table
-              </label>
-              <Input
-                id="tableNumber"
-                type="number"
-                placeholder="Ex: 5"
-                value={tableNumber}
-                onChange={(e) => setTableNumber(e.target.value)}
-                className="text-lg h-12"
-                min="1"
-                required
-              />
+          {qrToken && isValidating ? (
+            <p className="text-center text-muted-foreground py-8">
+              Validation de votre table...
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {isScanning ? (
+                <div className="space-y-4">
+                  <QrScanner onDetected={handleScanned} onError={handleScanError} />
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setIsScanning(false)}
+                  >
+                    Annuler
+                  </Button>
+                </div>
+              ) : (
+                isQrScannerSupported() && (
+                  <Button
+                    className="w-full h-12 text-lg"
+                    onClick={() => setIsScanning(true)}
+                    disabled={isValidating}
+                  >
+                    <Camera className="mr-2 h-5 w-5" />
+                    Scanner le QR code
+                  </Button>
+                )
+              )}
+
+              <form onSubmit={handleManualSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <label htmlFor="tableCode" className="text-sm font-medium">
+                    Code de la table
+                  </label>
+                  <Input
+                    id="tableCode"
+                    placeholder="Code indiqué sous le QR code"
+                    value={manualCode}
+                    onChange={(e) => setManualCode(e.target.value)}
+                    className="text-lg h-12"
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="secondary"
+                  className="w-full h-12 text-lg"
+                  disabled={isValidating}
+                >
+                  {isValidating ? "Validation..." : "Continuer"}
+                  <ArrowRight className="ml-2 h-5 w-5" />
+                </Button>
+              </form>
             </div>
-            <Button
-              type="submit"
-              className="w-full h-12 text-lg"
-              disabled={isValidating}
-            >
-              {isValidating ? "Validation..." : "Continuer"}
-              <ArrowRight className="ml-2 h-5 w-5" />
-            </Button>
-          </form>
+          )}
           <div className="mt-6 p-4 bg-muted/50 rounded-lg">
             <p className="text-sm text-muted-foreground text-center">
-              💡 Le numéro de table est indiqué sur votre QR code
+              💡 Le QR code se trouve sur le chevalet de votre table
             </p>
           </div>
         </CardContent>
@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, CreditCard, Receipt, Split } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { orderStatusColors, orderStatusLabels, type OrderStatus } from "@/lib/order-status";
+import { createFullShare, getItemDueAmount, getRemainingAmount, isItemPaid, isPayable, type Payment } from "@/lib/bill-split";
+import { isOrderValidationError } from "@/lib/orders";
+import BillSplitDialog from "@/components/BillSplitDialog";
+import BillSharesList from "@/components/BillSharesList";
+import PaymentDialog from "@/components/PaymentDialog";
+import OrderExtras from "@/components/OrderExtras";
+import TaxBreakdown from "@/components/TaxBreakdown";
+
+interface TabSession {
+  id: string;
+  status: "open" | "closed";
+  opened_at: string;
+  orders: Array<{
+    id: string;
+    status: OrderStatus;
+    total: number;
+    tip: number;
+    service_charge: number;
+    created_at: string;
+    order_items: Array<{
+      id: string;
+      quantity: number;
+      subtotal: number;
+      tax_rate: number;
+      tax_amount: number;
+      dishes: { name: string } | null;
+    }>;
+  }>;
+  payments: Payment[];
+}
+
+const TableTab = () => {
+  const [session, setSession] = useState<TabSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSplitOpen, setIsSplitOpen] = useState(false);
+  const [payingShare, setPayingShare] = useState<Payment | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const tableId = sessionStorage.getItem("tableId");
+  const tableNumber = sessionStorage.getItem("tableNumber");
+
+  const fetchTab = useCallback(async () => {
+    if (!tableId) return;
+
+    try {
+      // RLS only returns sessions the guest has joined; take the latest one
+      const { data, error } = await supabase
+        .from("table_sessions")
+        .select(`
+          id, status, opened_at,
+          orders (
+            id, status, total, tip, service_charge, created_at,
+            order_items (id, quantity, subtotal, tax_rate, tax_amount, dishes (name))
+          ),
+          payments (*)
+        `)
+        .eq("table_id", tableId)
+        // Lines voided by the staff are off the bill
+        .neq("orders.order_items.status", "voided")
+        .order("opened_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSession(data);
+    } catch (error) {
+      console.error("Error fetching tab:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de charger l'addition",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tableId, toast]);
+
+  useEffect(() => {
+    if (!tableId) {
+      navigate("/table-scan");
+      return;
+    }
+    fetchTab();
+  }, [tableId, navigate, fetchTab]);
+
+  // The subscription only follows the session, not each refetch of it
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`tab-${sessionId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "orders",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        () => fetchTab()
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "payments",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        () => fetchTab()
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "table_sessions",
+          filter: `id=eq.${sessionId}`,
+        },
+        () => fetchTab()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, fetchTab]);
+
+  const orders = [...(session?.orders || [])].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  );
+  const total = orders.reduce((sum, order) => sum + Number(order.total), 0);
+  const payments = session?.payments || [];
+  const remaining = getRemainingAmount(total, payments);
+  const hasPendingShares = payments.some(isPayable);
+
+  const handlePayAll = async () => {
+    if (!session) return;
+    try {
+      setPayingShare(await createFullShare(session.id));
+      fetchTab();
+    } catch (error) {
+      console.error("Error preparing payment:", error);
+      toast({
+        title: "Erreur",
+        description: isOrderValidationError(error)
+          ? (error as Error).message
+          : "Impossible de préparer le paiement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const unpaidItems = orders.flatMap((order) =>
+    order.order_items
+      .filter((item) => !isItemPaid(item.id, payments))
+      .map((item) => ({
+        id: item.id,
+        name: `${item.quantity}x ${item.dishes?.name ?? ""}`,
+        subtotal: getItemDueAmount(item.subtotal, order),
+      }))
+  );
+
+  return (
+    <div className="min-h-screen bg-background pb-12">
+      <header className="sticky top-0 z-40 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/menu")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Menu
+          </Button>
+          <div className="text-center">
+            <h1 className="text-xl font-bold">Addition de la table</h1>
+            <p className="text-sm text-muted-foreground">Table {tableNumber}</p>
+          </div>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-2xl space-y-4">
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-12">Chargement...</p>
+        ) : !session || orders.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Receipt className="h-12 w-12 mx-auto mb-4 opacity-20" />
+            <p>Aucune commande pour le moment</p>
+          </div>
+        ) : (
+          <>
+            {orders.map((order) => (
+              <Card key={order.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">
+                      Commande de {format(new Date(order.created_at), "HH:mm", { locale: fr })}
+                    </CardTitle>
+                    <Badge className={orderStatusColors[order.status]}>
+                      {orderStatusLabels[order.status]}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    <button
+                      className="underline"
+                      onClick={() => navigate(`/order/${order.id}`)}
+                    >
+                      Suivre cette commande
+                    </button>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {order.order_items.map((item) => (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <span>
+                        {item.quantity}x {item.dishes?.name}
+                      </span>
+                      <span>{Number(item.subtotal).toFixed(2)} €</span>
+                    </div>
+                  ))}
+                  <OrderExtras serviceCharge={order.service_charge} tip={order.tip} />
+                </CardContent>
+              </Card>
+            ))}
+
+            <div className="flex items-center justify-between text-lg font-bold border-t pt-4">
+              <span>{session.status === "closed" ? "Addition réglée" : "Total à ce jour"}</span>
+              <span className="text-primary">{total.toFixed(2)} €</span>
+            </div>
+            <TaxBreakdown orders={orders} />
+
+            {payments.length > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">
+                    Reste à payer : {remaining.toFixed(2)} €
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <BillSharesList payments={payments} onPay={setPayingShare} />
+                </CardContent>
+              </Card>
+            )}
+
+            {session.status === "open" && remaining > 0 && !hasPendingShares && (
+              <Button className="w-full h-12" onClick={handlePayAll}>
+                <CreditCard className="mr-2 h-4 w-4" />
+                Payer l'addition ({remaining.toFixed(2)} €)
+              </Button>
+            )}
+
+            {session.status === "open" && remaining > 0 && (
+              <Button variant="outline" className="w-full h-12" onClick={() => setIsSplitOpen(true)}>
+                <Split className="mr-2 h-4 w-4" />
+                Partager l'addition
+              </Button>
+            )}
+
+            <BillSplitDialog
+              open={isSplitOpen}
+              onOpenChange={setIsSplitOpen}
+              sessionId={session.id}
+              items={unpaidItems}
+              remaining={remaining}
+              onSplit={fetchTab}
+            />
+
+            <PaymentDialog
+              payment={payingShare}
+              onOpenChange={(open) => !open && setPayingShare(null)}
+              onPaid={fetchTab}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TableTab;
@@ -0,0 +1,118 @@
+-- Random, unguessable QR tokens for tables
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.generate_table_token()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  -- 12 random bytes, url-safe base64 (16 characters)
+  SELECT translate(encode(extensions.gen_random_bytes(12), 'base64'), '+/', '-_')
+$$;
+
+ALTER TABLE public.tables
+ALTER COLUMN qr_code_data SET DEFAULT public.generate_table_token();
+
+-- Tokens that were rotated away; kept so scans can tell "revoked" from "unknown"
+CREATE TABLE public.revoked_table_tokens (
+  token TEXT PRIMARY KEY,
+  table_id UUID NOT NULL REFERENCES public.tables(id) ON DELETE CASCADE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.revoked_table_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view revoked tokens"
+  ON public.revoked_table_tokens FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE INDEX idx_revoked_table_tokens_table_id ON public.revoked_table_tokens(table_id);
+
+-- Replace the predictable "table-N" codes
+INSERT INTO public.revoked_table_tokens (token, table_id)
+SELECT qr_code_data, id FROM public.tables WHERE qr_code_data LIKE 'table-%';
+
+UPDATE public.tables
+SET qr_code_data = public.generate_table_token()
+WHERE qr_code_data LIKE 'table-%';
+
+-- Guests must no longer be able to list tables (and their tokens)
+DROP POLICY "Anyone can view active tables" ON public.tables;
+
+CREATE POLICY "Staff can view tables"
+  ON public.tables FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+-- Resolve a scanned token; the only way for guests to reach a table
+CREATE OR REPLACE FUNCTION public.resolve_table_token(_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  table_id UUID,
+  table_number INTEGER,
+  restaurant_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    CASE WHEN t.is_active THEN 'active' ELSE 'inactive' END,
+    t.id,
+    t.table_number,
+    t.restaurant_id
+  FROM public.tables t
+  WHERE t.qr_code_data = _token;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.revoked_table_tokens WHERE token = _token) THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::UUID, NULL::INTEGER, NULL::UUID;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'unknown'::TEXT, NULL::UUID, NULL::INTEGER, NULL::UUID;
+END;
+$$;
+
+-- Issue a new token for a table and invalidate the current one
+CREATE OR REPLACE FUNCTION public.rotate_table_token(_table_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_token TEXT;
+  _new_token TEXT;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT qr_code_data INTO _old_token
+  FROM public.tables
+  WHERE id = _table_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _new_token := public.generate_table_token();
+
+  INSERT INTO public.revoked_table_tokens (token, table_id, revoked_by)
+  VALUES (_old_token, _table_id, auth.uid())
+  ON CONFLICT (token) DO NOTHING;
+
+  UPDATE public.tables SET qr_code_data = _new_token WHERE id = _table_id;
+
+  RETURN _new_token;
+END;
+$$;
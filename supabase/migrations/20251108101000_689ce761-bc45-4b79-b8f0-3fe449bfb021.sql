@@ -0,0 +1,152 @@
+-- Orders are now placed through place_order(), which prices everything server-side
+DROP POLICY "Anyone can create orders" ON public.orders;
+DROP POLICY "Anyone can create order items" ON public.order_items;
+
+-- Validate the options chosen for a dish and price them from dish_options
+CREATE OR REPLACE FUNCTION public.price_order_item(_dish_id UUID, _option_ids UUID[])
+RETURNS TABLE (
+  options_selected JSONB,
+  options_total NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _group RECORD;
+  _selected_count INTEGER;
+BEGIN
+  _option_ids := COALESCE(_option_ids, ARRAY[]::UUID[]);
+
+  IF cardinality(_option_ids) <> (SELECT count(DISTINCT o) FROM unnest(_option_ids) o) THEN
+    RAISE EXCEPTION 'Option sélectionnée plusieurs fois';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_option_ids) AS selected(id)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.dish_options o
+      JOIN public.dish_option_groups g ON g.id = o.option_group_id
+      WHERE o.id = selected.id AND g.dish_id = _dish_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option invalide pour ce plat';
+  END IF;
+
+  FOR _group IN
+    SELECT * FROM public.dish_option_groups WHERE dish_id = _dish_id
+  LOOP
+    SELECT count(*) INTO _selected_count
+    FROM public.dish_options
+    WHERE option_group_id = _group.id AND id = ANY(_option_ids);
+
+    IF _group.is_required AND _selected_count = 0 THEN
+      RAISE EXCEPTION 'Le choix "%" est obligatoire', _group.name;
+    END IF;
+
+    IF NOT _group.allow_multiple AND _selected_count > 1 THEN
+      RAISE EXCEPTION 'Un seul choix possible pour "%"', _group.name;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'groupId', g.id,
+          'groupName', g.name,
+          'optionId', o.id,
+          'optionName', o.name,
+          'priceModifier', o.price_modifier
+        )
+        ORDER BY g.display_order, o.display_order
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(sum(o.price_modifier), 0)
+  FROM public.dish_options o
+  JOIN public.dish_option_groups g ON g.id = o.option_group_id
+  WHERE o.id = ANY(_option_ids);
+END;
+$$;
+
+-- Place an order for the table behind a QR token.
+-- _items: [{ "dish_id": uuid, "quantity": int, "comment": text, "option_ids": [uuid] }]
+CREATE OR REPLACE FUNCTION public.place_order(_table_token TEXT, _items JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table public.tables%ROWTYPE;
+  _order_id UUID;
+  _item JSONB;
+  _dish public.dishes%ROWTYPE;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _priced RECORD;
+  _subtotal NUMERIC;
+  _total NUMERIC := 0;
+BEGIN
+  SELECT * INTO _table
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'La commande est vide';
+  END IF;
+
+  INSERT INTO public.orders (table_id, total, status)
+  VALUES (_table.id, 0, 'received')
+  RETURNING id INTO _order_id;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT * INTO _dish
+    FROM public.dishes
+    WHERE id = (_item->>'dish_id')::UUID
+      AND restaurant_id = _table.restaurant_id
+      AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Un plat de votre panier n''est plus disponible';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    IF _quantity IS NULL OR _quantity < 1 OR _quantity > 99 THEN
+      RAISE EXCEPTION 'Quantité invalide pour "%"', _dish.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::UUID), ARRAY[]::UUID[]) INTO _option_ids
+    FROM jsonb_array_elements_text(COALESCE(_item->'option_ids', '[]'::jsonb));
+
+    SELECT * INTO _priced FROM public.price_order_item(_dish.id, _option_ids);
+
+    _subtotal := (_dish.price + _priced.options_total) * _quantity;
+    _total := _total + _subtotal;
+
+    INSERT INTO public.order_items (order_id, dish_id, quantity, unit_price, subtotal, comment, options_selected)
+    VALUES (
+      _order_id,
+      _dish.id,
+      _quantity,
+      _dish.price,
+      _subtotal,
+      NULLIF(btrim(_item->>'comment'), ''),
+      _priced.options_selected
+    );
+  END LOOP;
+
+  UPDATE public.orders SET total = _total WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Idempotency key sent by the cart so retries never create a second order
+ALTER TABLE public.orders
+ADD COLUMN idempotency_key UUID UNIQUE;
+
+-- Insert the priced items of an order and return their total
+CREATE OR REPLACE FUNCTION public.add_order_items(_order_id UUID, _restaurant_id UUID, _items JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _dish public.dishes%ROWTYPE;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _priced RECORD;
+  _subtotal NUMERIC;
+  _total NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'La commande est vide';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT * INTO _dish
+    FROM public.dishes
+    WHERE id = (_item->>'dish_id')::UUID
+      AND restaurant_id = _restaurant_id
+      AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Un plat de votre panier n''est plus disponible';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    IF _quantity IS NULL OR _quantity < 1 OR _quantity > 99 THEN
+      RAISE EXCEPTION 'Quantité invalide pour "%"', _dish.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::UUID), ARRAY[]::UUID[]) INTO _option_ids
+    FROM jsonb_array_elements_text(COALESCE(_item->'option_ids', '[]'::jsonb));
+
+    SELECT * INTO _priced FROM public.price_order_item(_dish.id, _option_ids);
+
+    _subtotal := (_dish.price + _priced.options_total) * _quantity;
+    _total := _total + _subtotal;
+
+    INSERT INTO public.order_items (order_id, dish_id, quantity, unit_price, subtotal, comment, options_selected)
+    VALUES (
+      _order_id,
+      _dish.id,
+      _quantity,
+      _dish.price,
+      _subtotal,
+      NULLIF(btrim(_item->>'comment'), ''),
+      _priced.options_selected
+    );
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+DROP FUNCTION public.place_order(TEXT, JSONB);
+
+-- Place an order for the table behind a QR token. The order and its items are
+-- written in this function's transaction, so either both exist or neither does.
+-- Calling it again with the same _idempotency_key returns the existing order.
+-- _items: [{ "dish_id": uuid, "quantity": int, "comment": text, "option_ids": [uuid] }]
+CREATE OR REPLACE FUNCTION public.place_order(_table_token TEXT, _items JSONB, _idempotency_key UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table public.tables%ROWTYPE;
+  _order_id UUID;
+BEGIN
+  IF _idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Clé d''idempotence manquante';
+  END IF;
+
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT * INTO _table
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.orders (table_id, total, status, idempotency_key)
+    VALUES (_table.id, 0, 'received', _idempotency_key)
+    RETURNING id INTO _order_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent call with the same key won the race
+    SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END;
+
+  UPDATE public.orders
+  SET total = public.add_order_items(_order_id, _table.restaurant_id, _items)
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,170 @@
+-- Guests get an anonymous auth user; orders remember who placed them
+ALTER TABLE public.orders
+ADD COLUMN guest_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_guest_id ON public.orders(guest_id);
+
+CREATE POLICY "Guests can view their own orders"
+  ON public.orders FOR SELECT
+  USING (guest_id = auth.uid());
+
+CREATE POLICY "Guests can view their own order items"
+  ON public.order_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_items.order_id AND orders.guest_id = auth.uid()
+  ));
+
+-- Status history, written by trigger on every status change
+CREATE TABLE public.order_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  status public.order_status NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_events_order_id ON public.order_status_events(order_id);
+
+ALTER TABLE public.order_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view order status events"
+  ON public.order_status_events FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Guests can view their own order status events"
+  ON public.order_status_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_status_events.order_id AND orders.guest_id = auth.uid()
+  ));
+
+CREATE OR REPLACE FUNCTION public.log_order_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_events (order_id, status)
+    VALUES (NEW.id, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_status_event
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_status_event();
+
+-- Backfill a "received" event for existing orders
+INSERT INTO public.order_status_events (order_id, status, created_at)
+SELECT id, 'received', created_at FROM public.orders;
+
+-- Same as before, plus guest_id = auth.uid()
+CREATE OR REPLACE FUNCTION public.place_order(_table_token TEXT, _items JSONB, _idempotency_key UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table public.tables%ROWTYPE;
+  _order_id UUID;
+BEGIN
+  IF _idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Clé d''idempotence manquante';
+  END IF;
+
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT * INTO _table
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.orders (table_id, total, status, idempotency_key, guest_id)
+    VALUES (_table.id, 0, 'received', _idempotency_key, auth.uid())
+    RETURNING id INTO _order_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent call with the same key won the race
+    SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END;
+
+  UPDATE public.orders
+  SET total = public.add_order_items(_order_id, _table.restaurant_id, _items)
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Estimated minutes until an order is ready: recent average preparation time
+-- in the restaurant plus a little for every order queued ahead of it
+CREATE OR REPLACE FUNCTION public.estimate_order_wait(_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _restaurant_id UUID;
+  _average_prep INTERVAL;
+  _orders_ahead INTEGER;
+  _remaining NUMERIC;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+
+  IF NOT FOUND OR NOT (
+    _order.guest_id = auth.uid()
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Commande introuvable';
+  END IF;
+
+  IF _order.status NOT IN ('received', 'preparing') THEN
+    RETURN 0;
+  END IF;
+
+  SELECT restaurant_id INTO _restaurant_id FROM public.tables WHERE id = _order.table_id;
+
+  SELECT avg(ready.created_at - received.created_at) INTO _average_prep
+  FROM (
+    SELECT o.id
+    FROM public.orders o
+    JOIN public.tables t ON t.id = o.table_id
+    WHERE t.restaurant_id = _restaurant_id
+      AND o.created_at > now() - INTERVAL '7 days'
+    ORDER BY o.created_at DESC
+    LIMIT 50
+  ) recent
+  JOIN public.order_status_events received ON received.order_id = recent.id AND received.status = 'received'
+  JOIN public.order_status_events ready ON ready.order_id = recent.id AND ready.status = 'ready';
+
+  SELECT count(*) INTO _orders_ahead
+  FROM public.orders o
+  JOIN public.tables t ON t.id = o.table_id
+  WHERE t.restaurant_id = _restaurant_id
+    AND o.status IN ('received', 'preparing')
+    AND o.created_at < _order.created_at;
+
+  _remaining := EXTRACT(EPOCH FROM COALESCE(_average_prep, INTERVAL '15 minutes')) / 60
+    + _orders_ahead * 2
+    - EXTRACT(EPOCH FROM now() - _order.created_at) / 60;
+
+  RETURN GREATEST(1, ceil(_remaining))::INTEGER;
+END;
+$$;
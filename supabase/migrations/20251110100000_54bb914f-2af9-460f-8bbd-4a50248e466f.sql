@@ -0,0 +1,236 @@
+-- A table session is the running tab of a table: opened on the first scan,
+-- closed once everything has been paid
+CREATE TYPE public.table_session_status AS ENUM ('open', 'closed');
+
+CREATE TABLE public.table_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_id UUID NOT NULL REFERENCES public.tables(id) ON DELETE CASCADE,
+  status public.table_session_status NOT NULL DEFAULT 'open',
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at TIMESTAMPTZ
+);
+
+-- At most one open tab per table
+CREATE UNIQUE INDEX idx_table_sessions_open_table ON public.table_sessions(table_id) WHERE status = 'open';
+
+CREATE TABLE public.table_session_members (
+  session_id UUID NOT NULL REFERENCES public.table_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+CREATE INDEX idx_table_session_members_user_id ON public.table_session_members(user_id);
+
+ALTER TABLE public.orders
+ADD COLUMN session_id UUID REFERENCES public.table_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_session_id ON public.orders(session_id);
+
+-- Security definer so policies can use it without recursing into RLS
+CREATE OR REPLACE FUNCTION public.is_session_member(_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.table_session_members
+    WHERE session_id = _session_id AND user_id = auth.uid()
+  )
+$$;
+
+ALTER TABLE public.table_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.table_session_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their table sessions"
+  ON public.table_sessions FOR SELECT
+  USING (public.is_session_member(id));
+
+CREATE POLICY "Staff can view table sessions"
+  ON public.table_sessions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Staff can update table sessions"
+  ON public.table_sessions FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Members can view their session members"
+  ON public.table_session_members FOR SELECT
+  USING (public.is_session_member(session_id));
+
+CREATE POLICY "Staff can view session members"
+  ON public.table_session_members FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Members can update their own membership"
+  ON public.table_session_members FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- Guests see every order of their tab, not only the ones they placed
+DROP POLICY "Guests can view their own orders" ON public.orders;
+DROP POLICY "Guests can view their own order items" ON public.order_items;
+DROP POLICY "Guests can view their own order status events" ON public.order_status_events;
+
+CREATE POLICY "Guests can view their table session orders"
+  ON public.orders FOR SELECT
+  USING (guest_id = auth.uid() OR public.is_session_member(session_id));
+
+CREATE POLICY "Guests can view their table session order items"
+  ON public.order_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_items.order_id
+      AND (orders.guest_id = auth.uid() OR public.is_session_member(orders.session_id))
+  ));
+
+CREATE POLICY "Guests can view their table session order status events"
+  ON public.order_status_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = order_status_events.order_id
+      AND (orders.guest_id = auth.uid() OR public.is_session_member(orders.session_id))
+  ));
+
+-- Return the open session of a table, opening one if needed, and make the
+-- caller a member of it
+CREATE OR REPLACE FUNCTION public.ensure_table_session(_table_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session_id UUID;
+BEGIN
+  SELECT id INTO _session_id
+  FROM public.table_sessions
+  WHERE table_id = _table_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    BEGIN
+      INSERT INTO public.table_sessions (table_id)
+      VALUES (_table_id)
+      RETURNING id INTO _session_id;
+    EXCEPTION WHEN unique_violation THEN
+      -- Another guest of the same table opened it concurrently
+      SELECT id INTO _session_id
+      FROM public.table_sessions
+      WHERE table_id = _table_id AND status = 'open';
+    END;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.table_session_members (session_id, user_id)
+    VALUES (_session_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN _session_id;
+END;
+$$;
+
+-- Called when a guest scans a table's QR code
+CREATE OR REPLACE FUNCTION public.join_table_session(_table_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Session invité manquante';
+  END IF;
+
+  SELECT id INTO _table_id
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  RETURN public.ensure_table_session(_table_id);
+END;
+$$;
+
+-- Close the tab once every order in it has been paid
+CREATE OR REPLACE FUNCTION public.close_paid_table_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.session_id IS NOT NULL
+    AND NEW.status = 'paid'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE session_id = NEW.session_id AND status <> 'paid'
+    )
+  THEN
+    UPDATE public.table_sessions
+    SET status = 'closed', closed_at = now()
+    WHERE id = NEW.session_id AND status = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_paid_table_session
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_paid_table_session();
+
+-- Same as before, plus the order joins the table's open session
+CREATE OR REPLACE FUNCTION public.place_order(_table_token TEXT, _items JSONB, _idempotency_key UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table public.tables%ROWTYPE;
+  _order_id UUID;
+BEGIN
+  IF _idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Clé d''idempotence manquante';
+  END IF;
+
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT * INTO _table
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.orders (table_id, total, status, idempotency_key, guest_id, session_id)
+    VALUES (_table.id, 0, 'received', _idempotency_key, auth.uid(), public.ensure_table_session(_table.id))
+    RETURNING id INTO _order_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent call with the same key won the race
+    SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END;
+
+  UPDATE public.orders
+  SET total = public.add_order_items(_order_id, _table.restaurant_id, _items)
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.table_sessions;
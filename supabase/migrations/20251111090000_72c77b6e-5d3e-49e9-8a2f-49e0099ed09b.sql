@@ -0,0 +1,109 @@
+-- Shared cart of a table session: every guest of the table adds to it, one of
+-- them sends it to the kitchen
+CREATE TABLE public.cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.table_sessions(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  dish_id UUID NOT NULL REFERENCES public.dishes(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  comment TEXT,
+  -- Display copy of the chosen options; prices are recomputed on submission
+  selected_options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cart_items_session_id ON public.cart_items(session_id);
+
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their session cart"
+  ON public.cart_items FOR SELECT
+  USING (public.is_session_member(session_id));
+
+CREATE POLICY "Members can add to their session cart"
+  ON public.cart_items FOR INSERT
+  WITH CHECK (
+    added_by = auth.uid()
+    AND public.is_session_member(session_id)
+    AND EXISTS (
+      SELECT 1 FROM public.table_sessions
+      WHERE table_sessions.id = cart_items.session_id AND table_sessions.status = 'open'
+    )
+  );
+
+CREATE POLICY "Members can update their session cart"
+  ON public.cart_items FOR UPDATE
+  USING (public.is_session_member(session_id));
+
+CREATE POLICY "Members can delete from their session cart"
+  ON public.cart_items FOR DELETE
+  USING (public.is_session_member(session_id));
+
+-- Turn the whole shared cart into one order and empty it
+CREATE OR REPLACE FUNCTION public.submit_session_cart(_session_id UUID, _idempotency_key UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_token TEXT;
+  _item_ids UUID[];
+  _items JSONB;
+  _order_id UUID;
+BEGIN
+  IF NOT public.is_session_member(_session_id) THEN
+    RAISE EXCEPTION 'Vous ne faites pas partie de cette table';
+  END IF;
+
+  -- A retry of a submission that already went through
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT t.qr_code_data INTO _table_token
+  FROM public.table_sessions s
+  JOIN public.tables t ON t.id = s.table_id
+  WHERE s.id = _session_id AND s.status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée, veuillez rescanner le QR code';
+  END IF;
+
+  -- Lock the cart so two guests submitting at once can't both send it
+  WITH locked AS (
+    SELECT * FROM public.cart_items
+    WHERE session_id = _session_id
+    ORDER BY created_at
+    FOR UPDATE
+  )
+  SELECT
+    array_agg(id),
+    jsonb_agg(jsonb_build_object(
+      'dish_id', dish_id,
+      'quantity', quantity,
+      'comment', comment,
+      'option_ids', COALESCE(
+        (SELECT jsonb_agg(opt->'optionId') FROM jsonb_array_elements(selected_options) opt),
+        '[]'::jsonb
+      )
+    ) ORDER BY created_at)
+  INTO _item_ids, _items
+  FROM locked;
+
+  IF _item_ids IS NULL THEN
+    RAISE EXCEPTION 'Le panier est vide';
+  END IF;
+
+  _order_id := public.place_order(_table_token, _items, _idempotency_key);
+
+  DELETE FROM public.cart_items WHERE id = ANY(_item_ids);
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Deletes are only sent with the primary key, which is enough to drop the line
+ALTER PUBLICATION supabase_realtime ADD TABLE public.cart_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.table_session_members;
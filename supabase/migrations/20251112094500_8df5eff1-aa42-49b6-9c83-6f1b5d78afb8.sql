@@ -0,0 +1,232 @@
+-- A tab can be split into shares, each one paid separately
+CREATE TYPE public.bill_split_mode AS ENUM ('even', 'items', 'custom');
+CREATE TYPE public.payment_status AS ENUM ('pending', 'paid');
+
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.table_sessions(id) ON DELETE CASCADE,
+  split_mode public.bill_split_mode NOT NULL,
+  label TEXT NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  -- Split by item only: the order lines this share pays for
+  order_item_ids UUID[] NOT NULL DEFAULT '{}',
+  status public.payment_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  paid_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_payments_session_id ON public.payments(session_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Shares are only written through split_table_bill and settle_payment
+CREATE POLICY "Staff can view payments"
+  ON public.payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Members can view their session payments"
+  ON public.payments FOR SELECT
+  USING (public.is_session_member(session_id));
+
+-- Replace the unpaid shares of a tab by a new split of what is left to pay.
+-- _shares is an array of {label}, {label, order_item_ids} or {label, amount}
+-- depending on the mode.
+CREATE OR REPLACE FUNCTION public.split_table_bill(_session_id UUID, _mode public.bill_split_mode, _shares JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+  _remaining NUMERIC;
+  _base NUMERIC;
+  _share JSONB;
+  _index INTEGER := 0;
+  _assigned_ids UUID[];
+  _unpaid_ids UUID[];
+  _item_ids UUID[];
+  _amount NUMERIC;
+BEGIN
+  IF NOT (
+    public.is_session_member(_session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Addition introuvable';
+  END IF;
+
+  -- Lock the tab so two splits or a split and a payment can't interleave
+  PERFORM 1 FROM public.table_sessions WHERE id = _session_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée';
+  END IF;
+
+  IF jsonb_typeof(_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(_shares) = 0 THEN
+    RAISE EXCEPTION 'Indiquez au moins une part';
+  END IF;
+  _count := jsonb_array_length(_shares);
+
+  DELETE FROM public.payments WHERE session_id = _session_id AND status = 'pending';
+
+  SELECT
+    (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = _session_id)
+    - (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = _session_id AND status = 'paid')
+  INTO _remaining;
+
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Il ne reste rien à régler sur cette addition';
+  END IF;
+
+  IF _mode = 'even' THEN
+    _base := floor(_remaining * 100 / _count) / 100;
+    IF _base < 0.01 THEN
+      RAISE EXCEPTION 'Trop de parts pour le montant restant';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      -- Cents that don't divide evenly go to the first share
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || (_index + 1)),
+        CASE WHEN _index = 0 THEN _remaining - _base * (_count - 1) ELSE _base END
+      );
+      _index := _index + 1;
+    END LOOP;
+
+  ELSIF _mode = 'items' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = _session_id AND status = 'paid' AND split_mode <> 'items'
+    ) THEN
+      RAISE EXCEPTION 'Une partie de l''addition a déjà été réglée sans détail par plat';
+    END IF;
+
+    SELECT array_agg(item_id::UUID) INTO _assigned_ids
+    FROM jsonb_array_elements(_shares) s,
+      jsonb_array_elements_text(COALESCE(s->'order_item_ids', '[]'::jsonb)) item_id;
+
+    SELECT array_agg(oi.id) INTO _unpaid_ids
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.session_id = _session_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.session_id = _session_id AND p.status = 'paid' AND oi.id = ANY(p.order_item_ids)
+      );
+
+    _assigned_ids := COALESCE(_assigned_ids, '{}');
+    _unpaid_ids := COALESCE(_unpaid_ids, '{}');
+
+    -- Every unpaid line must belong to exactly one share
+    IF cardinality(_assigned_ids) <> (SELECT count(DISTINCT id) FROM unnest(_assigned_ids) id)
+      OR NOT (_assigned_ids @> _unpaid_ids AND _unpaid_ids @> _assigned_ids)
+    THEN
+      RAISE EXCEPTION 'Chaque plat doit être attribué à une seule part';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+
+      SELECT array_agg(value::UUID) INTO _item_ids
+      FROM jsonb_array_elements_text(COALESCE(_share->'order_item_ids', '[]'::jsonb));
+
+      IF _item_ids IS NULL THEN
+        RAISE EXCEPTION 'La part % ne contient aucun plat', _index;
+      END IF;
+
+      SELECT sum(subtotal) INTO _amount FROM public.order_items WHERE id = ANY(_item_ids);
+
+      INSERT INTO public.payments (session_id, split_mode, label, amount, order_item_ids)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        _amount,
+        _item_ids
+      );
+    END LOOP;
+
+  ELSE
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_shares) s
+      WHERE COALESCE((s->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Chaque part doit avoir un montant positif';
+    END IF;
+
+    SELECT sum(round((s->>'amount')::NUMERIC, 2)) INTO _amount FROM jsonb_array_elements(_shares) s;
+    IF _amount <> _remaining THEN
+      RAISE EXCEPTION 'La somme des parts (% €) ne correspond pas au reste à payer (% €)', _amount, _remaining;
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        round((_share->>'amount')::NUMERIC, 2)
+      );
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- Staff record that a share has been paid
+CREATE OR REPLACE FUNCTION public.settle_payment(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée au personnel';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid', paid_at = now()
+  WHERE id = _payment_id AND status = 'pending';
+END;
+$$;
+
+-- Once every share is paid and they cover the whole tab, its orders are paid
+-- (which in turn closes the session)
+CREATE OR REPLACE FUNCTION public.settle_paid_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = NEW.session_id AND status = 'pending'
+    )
+    AND (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = NEW.session_id AND status = 'paid')
+      >= (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = NEW.session_id)
+  THEN
+    UPDATE public.orders
+    SET status = 'paid'
+    WHERE session_id = NEW.session_id AND status <> 'paid';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_paid_payments
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.settle_paid_payments();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payments;
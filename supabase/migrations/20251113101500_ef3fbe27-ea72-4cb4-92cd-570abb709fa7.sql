@@ -0,0 +1,88 @@
+-- Payments go through a pluggable provider; remember which one and its
+-- reference so the payment can be refunded later
+ALTER TYPE public.payment_status ADD VALUE 'refunded';
+
+ALTER TABLE public.payments
+ADD COLUMN provider TEXT,
+ADD COLUMN provider_reference TEXT,
+ADD COLUMN refunded_at TIMESTAMPTZ;
+
+-- The mock provider never charges anyone, so guests may only confirm mock
+-- payments themselves in restaurants set up for development
+ALTER TABLE public.restaurants
+ADD COLUMN mock_payments_enabled BOOLEAN NOT NULL DEFAULT false;
+
+DROP FUNCTION public.settle_payment(UUID);
+
+-- Record a share as paid once the provider has confirmed it
+CREATE OR REPLACE FUNCTION public.record_payment(_payment_id UUID, _provider TEXT, _provider_reference TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _mock_enabled BOOLEAN;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paiement introuvable';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    SELECT r.mock_payments_enabled INTO _mock_enabled
+    FROM public.table_sessions s
+    JOIN public.tables t ON t.id = s.table_id
+    JOIN public.restaurants r ON r.id = t.restaurant_id
+    WHERE s.id = _payment.session_id;
+
+    IF NOT public.is_session_member(_payment.session_id) THEN
+      RAISE EXCEPTION 'Paiement introuvable';
+    END IF;
+
+    IF _provider <> 'mock' OR NOT _mock_enabled THEN
+      RAISE EXCEPTION 'Ce paiement doit être confirmé par le restaurant';
+    END IF;
+  END IF;
+
+  -- Already recorded: a retry after a network failure
+  IF _payment.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid', paid_at = now(), provider = _provider, provider_reference = NULLIF(_provider_reference, '')
+  WHERE id = _payment_id;
+END;
+$$;
+
+-- Staff record a refund once the provider has issued it
+CREATE OR REPLACE FUNCTION public.record_refund(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée aux responsables';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'refunded', refunded_at = now()
+  WHERE id = _payment_id AND status = 'paid';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Seul un paiement réglé peut être remboursé';
+  END IF;
+END;
+$$;
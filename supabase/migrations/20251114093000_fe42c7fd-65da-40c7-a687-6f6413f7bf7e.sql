@@ -0,0 +1,355 @@
+-- Tips and service charge: orders.total now includes both, the items
+-- subtotal being total - tip - service_charge
+ALTER TABLE public.restaurants
+ADD COLUMN tip_presets JSONB NOT NULL DEFAULT '[{"type": "percent", "value": 5}, {"type": "percent", "value": 10}, {"type": "percent", "value": 15}]'::jsonb,
+-- Applied automatically once the table has at least service_charge_min_guests guests
+ADD COLUMN service_charge_percent NUMERIC(5,2) CHECK (service_charge_percent >= 0 AND service_charge_percent <= 100),
+ADD COLUMN service_charge_min_guests INTEGER CHECK (service_charge_min_guests > 0);
+
+ALTER TABLE public.orders
+ADD COLUMN tip NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (tip >= 0),
+ADD COLUMN service_charge NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (service_charge >= 0);
+
+-- Restaurants are only readable by admins: guests get what checkout needs
+CREATE OR REPLACE FUNCTION public.get_checkout_settings(_table_token TEXT)
+RETURNS TABLE(tip_presets JSONB, service_charge_percent NUMERIC, service_charge_min_guests INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.tip_presets, r.service_charge_percent, r.service_charge_min_guests
+  FROM public.tables t
+  JOIN public.restaurants r ON r.id = t.restaurant_id
+  WHERE t.qr_code_data = _table_token AND t.is_active = true
+$$;
+
+-- _tip is {"type": "percent" | "fixed", "value": number}, or NULL for no tip
+CREATE OR REPLACE FUNCTION public.compute_order_tip(_tip JSONB, _subtotal NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _value NUMERIC;
+BEGIN
+  IF _tip IS NULL OR jsonb_typeof(_tip) = 'null' THEN
+    RETURN 0;
+  END IF;
+
+  _value := (_tip->>'value')::NUMERIC;
+  IF _value IS NULL OR _value < 0 THEN
+    RAISE EXCEPTION 'Pourboire invalide';
+  END IF;
+
+  IF _tip->>'type' = 'percent' THEN
+    IF _value > 100 THEN
+      RAISE EXCEPTION 'Pourboire invalide';
+    END IF;
+    RETURN round(_subtotal * _value / 100, 2);
+  ELSIF _tip->>'type' = 'fixed' THEN
+    RETURN round(_value, 2);
+  END IF;
+
+  RAISE EXCEPTION 'Pourboire invalide';
+END;
+$$;
+
+DROP FUNCTION public.submit_session_cart(UUID, UUID);
+DROP FUNCTION public.place_order(TEXT, JSONB, UUID);
+
+-- Same as before, plus the tip and the automatic service charge
+CREATE OR REPLACE FUNCTION public.place_order(_table_token TEXT, _items JSONB, _idempotency_key UUID, _tip JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table public.tables%ROWTYPE;
+  _restaurant public.restaurants%ROWTYPE;
+  _order_id UUID;
+  _session_id UUID;
+  _subtotal NUMERIC;
+  _service_charge NUMERIC := 0;
+  _tip_amount NUMERIC;
+BEGIN
+  IF _idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Clé d''idempotence manquante';
+  END IF;
+
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT * INTO _table
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  SELECT * INTO _restaurant FROM public.restaurants WHERE id = _table.restaurant_id;
+  _session_id := public.ensure_table_session(_table.id);
+
+  BEGIN
+    INSERT INTO public.orders (table_id, total, status, idempotency_key, guest_id, session_id)
+    VALUES (_table.id, 0, 'received', _idempotency_key, auth.uid(), _session_id)
+    RETURNING id INTO _order_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent call with the same key won the race
+    SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END;
+
+  _subtotal := public.add_order_items(_order_id, _table.restaurant_id, _items);
+  _tip_amount := public.compute_order_tip(_tip, _subtotal);
+
+  IF _restaurant.service_charge_percent IS NOT NULL
+    AND (
+      SELECT count(*) FROM public.table_session_members WHERE session_id = _session_id
+    ) >= COALESCE(_restaurant.service_charge_min_guests, 1)
+  THEN
+    _service_charge := round(_subtotal * _restaurant.service_charge_percent / 100, 2);
+  END IF;
+
+  UPDATE public.orders
+  SET total = _subtotal + _service_charge + _tip_amount,
+    service_charge = _service_charge,
+    tip = _tip_amount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Same as before, the tip is passed on to place_order
+CREATE OR REPLACE FUNCTION public.submit_session_cart(_session_id UUID, _idempotency_key UUID, _tip JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_token TEXT;
+  _item_ids UUID[];
+  _items JSONB;
+  _order_id UUID;
+BEGIN
+  IF NOT public.is_session_member(_session_id) THEN
+    RAISE EXCEPTION 'Vous ne faites pas partie de cette table';
+  END IF;
+
+  -- A retry of a submission that already went through
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT t.qr_code_data INTO _table_token
+  FROM public.table_sessions s
+  JOIN public.tables t ON t.id = s.table_id
+  WHERE s.id = _session_id AND s.status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée, veuillez rescanner le QR code';
+  END IF;
+
+  -- Lock the cart so two guests submitting at once can't both send it
+  WITH locked AS (
+    SELECT * FROM public.cart_items
+    WHERE session_id = _session_id
+    ORDER BY created_at
+    FOR UPDATE
+  )
+  SELECT
+    array_agg(id),
+    jsonb_agg(jsonb_build_object(
+      'dish_id', dish_id,
+      'quantity', quantity,
+      'comment', comment,
+      'option_ids', COALESCE(
+        (SELECT jsonb_agg(opt->'optionId') FROM jsonb_array_elements(selected_options) opt),
+        '[]'::jsonb
+      )
+    ) ORDER BY created_at)
+  INTO _item_ids, _items
+  FROM locked;
+
+  IF _item_ids IS NULL THEN
+    RAISE EXCEPTION 'Le panier est vide';
+  END IF;
+
+  _order_id := public.place_order(_table_token, _items, _idempotency_key, _tip);
+
+  DELETE FROM public.cart_items WHERE id = ANY(_item_ids);
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Same as before, except that a split by item spreads each order's tip and
+-- service charge over its lines
+CREATE OR REPLACE FUNCTION public.split_table_bill(_session_id UUID, _mode public.bill_split_mode, _shares JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+  _remaining NUMERIC;
+  _base NUMERIC;
+  _share JSONB;
+  _index INTEGER := 0;
+  _assigned_ids UUID[];
+  _unpaid_ids UUID[];
+  _item_ids UUID[];
+  _amount NUMERIC;
+  _allocated NUMERIC := 0;
+BEGIN
+  IF NOT (
+    public.is_session_member(_session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Addition introuvable';
+  END IF;
+
+  -- Lock the tab so two splits or a split and a payment can't interleave
+  PERFORM 1 FROM public.table_sessions WHERE id = _session_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée';
+  END IF;
+
+  IF jsonb_typeof(_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(_shares) = 0 THEN
+    RAISE EXCEPTION 'Indiquez au moins une part';
+  END IF;
+  _count := jsonb_array_length(_shares);
+
+  DELETE FROM public.payments WHERE session_id = _session_id AND status = 'pending';
+
+  SELECT
+    (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = _session_id)
+    - (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = _session_id AND status = 'paid')
+  INTO _remaining;
+
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Il ne reste rien à régler sur cette addition';
+  END IF;
+
+  IF _mode = 'even' THEN
+    _base := floor(_remaining * 100 / _count) / 100;
+    IF _base < 0.01 THEN
+      RAISE EXCEPTION 'Trop de parts pour le montant restant';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      -- Cents that don't divide evenly go to the first share
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || (_index + 1)),
+        CASE WHEN _index = 0 THEN _remaining - _base * (_count - 1) ELSE _base END
+      );
+      _index := _index + 1;
+    END LOOP;
+
+  ELSIF _mode = 'items' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = _session_id AND status = 'paid' AND split_mode <> 'items'
+    ) THEN
+      RAISE EXCEPTION 'Une partie de l''addition a déjà été réglée sans détail par plat';
+    END IF;
+
+    SELECT array_agg(item_id::UUID) INTO _assigned_ids
+    FROM jsonb_array_elements(_shares) s,
+      jsonb_array_elements_text(COALESCE(s->'order_item_ids', '[]'::jsonb)) item_id;
+
+    SELECT array_agg(oi.id) INTO _unpaid_ids
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.session_id = _session_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.session_id = _session_id AND p.status = 'paid' AND oi.id = ANY(p.order_item_ids)
+      );
+
+    _assigned_ids := COALESCE(_assigned_ids, '{}');
+    _unpaid_ids := COALESCE(_unpaid_ids, '{}');
+
+    -- Every unpaid line must belong to exactly one share
+    IF cardinality(_assigned_ids) <> (SELECT count(DISTINCT id) FROM unnest(_assigned_ids) id)
+      OR NOT (_assigned_ids @> _unpaid_ids AND _unpaid_ids @> _assigned_ids)
+    THEN
+      RAISE EXCEPTION 'Chaque plat doit être attribué à une seule part';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+
+      SELECT array_agg(value::UUID) INTO _item_ids
+      FROM jsonb_array_elements_text(COALESCE(_share->'order_item_ids', '[]'::jsonb));
+
+      IF _item_ids IS NULL THEN
+        RAISE EXCEPTION 'La part % ne contient aucun plat', _index;
+      END IF;
+
+      -- Each line carries its share of the order's tip and service charge;
+      -- the last share absorbs the rounding
+      IF _index = _count THEN
+        _amount := _remaining - _allocated;
+      ELSE
+        SELECT round(sum(oi.subtotal * o.total / lines.items_total), 2) INTO _amount
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        JOIN (
+          SELECT order_id, sum(subtotal) AS items_total
+          FROM public.order_items
+          GROUP BY order_id
+        ) lines ON lines.order_id = oi.order_id
+        WHERE oi.id = ANY(_item_ids);
+      END IF;
+      _allocated := _allocated + _amount;
+
+      INSERT INTO public.payments (session_id, split_mode, label, amount, order_item_ids)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        _amount,
+        _item_ids
+      );
+    END LOOP;
+
+  ELSE
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_shares) s
+      WHERE COALESCE((s->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Chaque part doit avoir un montant positif';
+    END IF;
+
+    SELECT sum(round((s->>'amount')::NUMERIC, 2)) INTO _amount FROM jsonb_array_elements(_shares) s;
+    IF _amount <> _remaining THEN
+      RAISE EXCEPTION 'La somme des parts (% €) ne correspond pas au reste à payer (% €)', _amount, _remaining;
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        round((_share->>'amount')::NUMERIC, 2)
+      );
+    END LOOP;
+  END IF;
+END;
+$$;
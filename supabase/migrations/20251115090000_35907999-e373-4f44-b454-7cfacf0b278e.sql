@@ -0,0 +1,147 @@
+-- VAT: dish prices are tax-inclusive (TTC); each dish belongs to a tax
+-- category and the rate applied is copied onto the order line, so past
+-- orders keep their breakdown when rates change
+CREATE TABLE public.tax_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rate NUMERIC(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  -- Used for dishes without a category
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tax_categories_restaurant_id ON public.tax_categories(restaurant_id);
+
+-- At most one default category per restaurant
+CREATE UNIQUE INDEX idx_tax_categories_default ON public.tax_categories(restaurant_id) WHERE is_default;
+
+ALTER TABLE public.tax_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax categories"
+  ON public.tax_categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage tax categories"
+  ON public.tax_categories FOR ALL
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+-- French rates for food eaten on site and for alcoholic drinks
+CREATE OR REPLACE FUNCTION public.create_default_tax_categories()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.tax_categories (restaurant_id, name, rate, is_default)
+  VALUES
+    (NEW.id, 'Restauration sur place', 10, true),
+    (NEW.id, 'Boissons alcoolisées', 20, false);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_tax_categories
+  AFTER INSERT ON public.restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_default_tax_categories();
+
+INSERT INTO public.tax_categories (restaurant_id, name, rate, is_default)
+SELECT id, 'Restauration sur place', 10, true FROM public.restaurants;
+
+INSERT INTO public.tax_categories (restaurant_id, name, rate)
+SELECT id, 'Boissons alcoolisées', 20 FROM public.restaurants;
+
+ALTER TABLE public.dishes
+ADD COLUMN tax_category_id UUID REFERENCES public.tax_categories(id) ON DELETE SET NULL;
+
+ALTER TABLE public.order_items
+ADD COLUMN tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+-- VAT included in subtotal
+ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Past orders were taken at the default rate
+UPDATE public.order_items oi
+SET tax_rate = tc.rate, tax_amount = round(oi.subtotal * tc.rate / (100 + tc.rate), 2)
+FROM public.dishes d
+JOIN public.tax_categories tc ON tc.restaurant_id = d.restaurant_id AND tc.is_default
+WHERE d.id = oi.dish_id;
+
+-- Rate of a dish: its category's, else the restaurant's default one
+CREATE OR REPLACE FUNCTION public.get_dish_tax_rate(_dish_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT tc.rate FROM public.dishes d JOIN public.tax_categories tc ON tc.id = d.tax_category_id WHERE d.id = _dish_id),
+    (SELECT tc.rate FROM public.dishes d JOIN public.tax_categories tc ON tc.restaurant_id = d.restaurant_id AND tc.is_default WHERE d.id = _dish_id),
+    0
+  )
+$$;
+
+-- Same as before, plus the VAT rate and amount of each line
+CREATE OR REPLACE FUNCTION public.add_order_items(_order_id UUID, _restaurant_id UUID, _items JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _dish public.dishes%ROWTYPE;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _priced RECORD;
+  _subtotal NUMERIC;
+  _tax_rate NUMERIC;
+  _total NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'La commande est vide';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT * INTO _dish
+    FROM public.dishes
+    WHERE id = (_item->>'dish_id')::UUID
+      AND restaurant_id = _restaurant_id
+      AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Un plat de votre panier n''est plus disponible';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    IF _quantity IS NULL OR _quantity < 1 OR _quantity > 99 THEN
+      RAISE EXCEPTION 'Quantité invalide pour "%"', _dish.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::UUID), ARRAY[]::UUID[]) INTO _option_ids
+    FROM jsonb_array_elements_text(COALESCE(_item->'option_ids', '[]'::jsonb));
+
+    SELECT * INTO _priced FROM public.price_order_item(_dish.id, _option_ids);
+
+    _subtotal := (_dish.price + _priced.options_total) * _quantity;
+    _tax_rate := public.get_dish_tax_rate(_dish.id);
+    _total := _total + _subtotal;
+
+    INSERT INTO public.order_items (order_id, dish_id, quantity, unit_price, subtotal, comment, options_selected, tax_rate, tax_amount)
+    VALUES (
+      _order_id,
+      _dish.id,
+      _quantity,
+      _dish.price,
+      _subtotal,
+      NULLIF(btrim(_item->>'comment'), ''),
+      _priced.options_selected,
+      _tax_rate,
+      round(_subtotal * _tax_rate / (100 + _tax_rate), 2)
+    );
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Everything a receipt needs in one call. Restaurants are only readable by
+-- admins, so guests can't fetch the name and address themselves.
+CREATE OR REPLACE FUNCTION public.get_order_receipt(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+
+  IF NOT FOUND OR NOT (
+    _order.guest_id = auth.uid()
+    OR public.is_session_member(_order.session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Commande introuvable';
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'restaurant', jsonb_build_object('name', r.name, 'address', r.address),
+      'table_number', t.table_number,
+      'order', jsonb_build_object(
+        'id', _order.id,
+        'status', _order.status,
+        'created_at', _order.created_at,
+        'total', _order.total,
+        'tip', _order.tip,
+        'service_charge', _order.service_charge
+      ),
+      'items', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'name', d.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'subtotal', oi.subtotal,
+          'tax_rate', oi.tax_rate,
+          'tax_amount', oi.tax_amount,
+          'comment', oi.comment,
+          'options_selected', COALESCE(oi.options_selected, '[]'::jsonb)
+        ) ORDER BY oi.created_at, oi.id)
+        FROM public.order_items oi
+        JOIN public.dishes d ON d.id = oi.dish_id
+        WHERE oi.order_id = _order.id
+      ), '[]'::jsonb)
+    )
+    FROM public.tables t
+    JOIN public.restaurants r ON r.id = t.restaurant_id
+    WHERE t.id = _order.table_id
+  );
+END;
+$$;
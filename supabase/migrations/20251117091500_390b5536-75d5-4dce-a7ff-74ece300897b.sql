@@ -0,0 +1,208 @@
+-- Preparation stations (kitchen, bar, pastry...). Each order is fanned out
+-- into one ticket per station, and the order is ready once all are.
+CREATE TABLE public.stations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  -- Receives the dishes that aren't assigned to a station
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stations_restaurant_id ON public.stations(restaurant_id);
+CREATE UNIQUE INDEX idx_stations_default ON public.stations(restaurant_id) WHERE is_default;
+
+ALTER TABLE public.dishes
+ADD COLUMN station_id UUID REFERENCES public.stations(id) ON DELETE SET NULL;
+
+CREATE TYPE public.ticket_status AS ENUM ('received', 'preparing', 'ready');
+
+CREATE TABLE public.order_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  station_id UUID NOT NULL REFERENCES public.stations(id) ON DELETE CASCADE,
+  status public.ticket_status NOT NULL DEFAULT 'received',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (order_id, station_id)
+);
+
+CREATE INDEX idx_order_tickets_station_status ON public.order_tickets(station_id, status);
+
+ALTER TABLE public.order_items
+ADD COLUMN ticket_id UUID REFERENCES public.order_tickets(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_order_items_ticket_id ON public.order_items(ticket_id);
+
+CREATE TRIGGER update_order_tickets_updated_at
+  BEFORE UPDATE ON public.order_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.stations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view stations"
+  ON public.stations FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Admins can manage stations"
+  ON public.stations FOR ALL
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Staff can view order tickets"
+  ON public.order_tickets FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Staff can update order tickets"
+  ON public.order_tickets FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE OR REPLACE FUNCTION public.create_default_stations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.stations (restaurant_id, name, display_order, is_default)
+  VALUES
+    (NEW.id, 'Cuisine', 0, true),
+    (NEW.id, 'Bar', 1, false),
+    (NEW.id, 'Desserts', 2, false);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_stations
+  AFTER INSERT ON public.restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_default_stations();
+
+INSERT INTO public.stations (restaurant_id, name, display_order, is_default)
+SELECT r.id, s.name, s.display_order, s.display_order = 0
+FROM public.restaurants r
+CROSS JOIN (VALUES ('Cuisine', 0), ('Bar', 1), ('Desserts', 2)) AS s(name, display_order);
+
+-- Station of a dish: its own, else the restaurant's default one
+CREATE OR REPLACE FUNCTION public.get_dish_station(_dish_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    d.station_id,
+    (SELECT s.id FROM public.stations s WHERE s.restaurant_id = d.restaurant_id AND s.is_default)
+  )
+  FROM public.dishes d
+  WHERE d.id = _dish_id
+$$;
+
+-- Attach a new order line to its station's ticket, opening the ticket if needed
+CREATE OR REPLACE FUNCTION public.route_order_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _station_id UUID;
+BEGIN
+  _station_id := public.get_dish_station(NEW.dish_id);
+  IF _station_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_tickets (order_id, station_id)
+  VALUES (NEW.order_id, _station_id)
+  ON CONFLICT (order_id, station_id) DO NOTHING;
+
+  SELECT id INTO NEW.ticket_id
+  FROM public.order_tickets
+  WHERE order_id = NEW.order_id AND station_id = _station_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_order_item
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_order_item();
+
+-- The order follows its tickets: preparing as soon as one station starts,
+-- ready once every station is done
+CREATE OR REPLACE FUNCTION public.sync_order_with_tickets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_tickets WHERE order_id = NEW.order_id AND status <> 'ready'
+  ) THEN
+    UPDATE public.orders
+    SET status = 'ready'
+    WHERE id = NEW.order_id AND status IN ('received', 'preparing');
+  ELSIF NEW.status <> 'received' THEN
+    UPDATE public.orders
+    SET status = 'preparing'
+    WHERE id = NEW.order_id AND status = 'received';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_order_with_tickets
+  AFTER UPDATE OF status ON public.order_tickets
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.sync_order_with_tickets();
+
+-- An order marked ready (or beyond) by hand closes its open tickets
+CREATE OR REPLACE FUNCTION public.close_order_tickets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('ready', 'served', 'paid') THEN
+    UPDATE public.order_tickets
+    SET status = 'ready'
+    WHERE order_id = NEW.id AND status <> 'ready';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER close_order_tickets
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.close_order_tickets();
+
+-- Fan out the existing orders
+INSERT INTO public.order_tickets (order_id, station_id, status, created_at)
+SELECT DISTINCT ON (oi.order_id, public.get_dish_station(oi.dish_id))
+  oi.order_id,
+  public.get_dish_station(oi.dish_id),
+  CASE o.status
+    WHEN 'received' THEN 'received'::public.ticket_status
+    WHEN 'preparing' THEN 'preparing'::public.ticket_status
+    ELSE 'ready'::public.ticket_status
+  END,
+  o.created_at
+FROM public.order_items oi
+JOIN public.orders o ON o.id = oi.order_id
+WHERE public.get_dish_station(oi.dish_id) IS NOT NULL;
+
+UPDATE public.order_items oi
+SET ticket_id = t.id
+FROM public.order_tickets t
+WHERE t.order_id = oi.order_id AND t.station_id = public.get_dish_station(oi.dish_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_tickets;
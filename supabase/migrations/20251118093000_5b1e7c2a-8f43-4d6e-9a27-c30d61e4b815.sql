@@ -0,0 +1,146 @@
+-- Progress is now tracked per order line; tickets and orders follow their lines
+CREATE TYPE public.order_item_status AS ENUM ('pending', 'cooking', 'done', 'served', 'voided');
+
+ALTER TABLE public.order_items
+ADD COLUMN status public.order_item_status NOT NULL DEFAULT 'pending';
+
+CREATE POLICY "Staff can update order items"
+  ON public.order_items FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+-- Existing lines take the progress of their ticket, else of their order
+UPDATE public.order_items oi
+SET status = CASE
+  WHEN o.status IN ('served', 'paid') THEN 'served'::public.order_item_status
+  WHEN o.status = 'ready'
+    OR (SELECT t.status FROM public.order_tickets t WHERE t.id = oi.ticket_id) = 'ready'
+    THEN 'done'::public.order_item_status
+  WHEN o.status = 'preparing' THEN 'cooking'::public.order_item_status
+  ELSE 'pending'::public.order_item_status
+END
+FROM public.orders o
+WHERE o.id = oi.order_id;
+
+-- A line changed: recompute its ticket, then its order. Voided lines don't count,
+-- and a paid order is never moved back.
+CREATE OR REPLACE FUNCTION public.sync_order_with_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket_status public.ticket_status;
+  _order_status public.order_status;
+BEGIN
+  IF NEW.ticket_id IS NOT NULL THEN
+    SELECT CASE
+      WHEN bool_and(status IN ('done', 'served')) IS NOT FALSE THEN 'ready'::public.ticket_status
+      WHEN bool_and(status = 'pending') THEN 'received'::public.ticket_status
+      ELSE 'preparing'::public.ticket_status
+    END INTO _ticket_status
+    FROM public.order_items
+    WHERE ticket_id = NEW.ticket_id AND status <> 'voided';
+
+    UPDATE public.order_tickets
+    SET status = _ticket_status
+    WHERE id = NEW.ticket_id AND status <> _ticket_status;
+  END IF;
+
+  SELECT CASE
+    WHEN count(*) = 0 THEN NULL
+    WHEN bool_and(status = 'served') THEN 'served'::public.order_status
+    WHEN bool_and(status IN ('done', 'served')) THEN 'ready'::public.order_status
+    WHEN bool_and(status = 'pending') THEN 'received'::public.order_status
+    ELSE 'preparing'::public.order_status
+  END INTO _order_status
+  FROM public.order_items
+  WHERE order_id = NEW.order_id AND status <> 'voided';
+
+  UPDATE public.orders
+  SET status = _order_status
+  WHERE id = NEW.order_id AND status <> 'paid' AND status <> _order_status;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_order_with_items
+  AFTER UPDATE OF status ON public.order_items
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.sync_order_with_items();
+
+-- Bumping a ticket on the kitchen display moves all of its lines at once
+DROP TRIGGER sync_order_with_tickets ON public.order_tickets;
+DROP FUNCTION public.sync_order_with_tickets();
+
+CREATE OR REPLACE FUNCTION public.sync_items_with_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Tickets recomputed from their lines already reflect them
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.order_items
+  SET status = CASE NEW.status
+    WHEN 'received' THEN 'pending'::public.order_item_status
+    WHEN 'preparing' THEN 'cooking'::public.order_item_status
+    ELSE 'done'::public.order_item_status
+  END
+  WHERE ticket_id = NEW.id
+    AND CASE NEW.status
+      WHEN 'received' THEN status = 'cooking'
+      WHEN 'preparing' THEN status = 'pending'
+      ELSE status IN ('pending', 'cooking')
+    END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_items_with_ticket
+  AFTER UPDATE OF status ON public.order_tickets
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.sync_items_with_ticket();
+
+-- An order moved by hand (or paid) carries its lines along. Only ever moves
+-- lines forward, so the order updates made from the lines are no-ops here.
+DROP TRIGGER close_order_tickets ON public.orders;
+DROP FUNCTION public.close_order_tickets();
+
+CREATE OR REPLACE FUNCTION public.sync_items_with_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'preparing' AND pg_trigger_depth() = 1 THEN
+    UPDATE public.order_items
+    SET status = 'cooking'
+    WHERE order_id = NEW.id AND status = 'pending';
+  ELSIF NEW.status = 'ready' THEN
+    UPDATE public.order_items
+    SET status = 'done'
+    WHERE order_id = NEW.id AND status IN ('pending', 'cooking');
+  ELSIF NEW.status IN ('served', 'paid') THEN
+    UPDATE public.order_items
+    SET status = 'served'
+    WHERE order_id = NEW.id AND status IN ('pending', 'cooking', 'done');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_items_with_order
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION public.sync_items_with_order();
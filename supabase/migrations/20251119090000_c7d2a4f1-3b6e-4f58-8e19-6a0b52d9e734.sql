@@ -0,0 +1,108 @@
+-- Order status history now records who made each change and why
+ALTER TABLE public.order_status_events
+ADD COLUMN previous_status public.order_status,
+ADD COLUMN actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+-- Snapshot of the actor's role at the time, NULL for guests
+ADD COLUMN actor_role public.app_role,
+ADD COLUMN reason TEXT;
+
+-- Same as before, plus previous status, actor and the reason given to set_order_status
+CREATE OR REPLACE FUNCTION public.log_order_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_role public.app_role;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    SELECT role INTO _actor_role
+    FROM public.user_roles
+    WHERE user_id = auth.uid()
+    ORDER BY CASE role WHEN 'admin' THEN 0 WHEN 'manager' THEN 1 ELSE 2 END
+    LIMIT 1;
+
+    INSERT INTO public.order_status_events (order_id, status, previous_status, actor_id, actor_role, reason)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      auth.uid(),
+      _actor_role,
+      NULLIF(current_setting('app.order_status_reason', true), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Staff move an order one step forward at a time; going back (reopening) is
+-- for admins only and needs a reason. Changes cascading from order lines,
+-- tickets or payments follow their own rules and aren't checked here.
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _steps public.order_status[] := enum_range(NULL::public.order_status);
+  _from INTEGER;
+  _to INTEGER;
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  _from := array_position(_steps, OLD.status);
+  _to := array_position(_steps, NEW.status);
+
+  IF _to < _from THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Seul un administrateur peut rouvrir une commande';
+    END IF;
+    IF NULLIF(btrim(current_setting('app.order_status_reason', true)), '') IS NULL THEN
+      RAISE EXCEPTION 'Indiquez le motif de la réouverture';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF _to > _from + 1 THEN
+    RAISE EXCEPTION 'Une commande doit passer par chaque étape, dans l''ordre';
+  END IF;
+
+  IF NEW.status = 'paid' AND NEW.session_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cette commande se règle avec l''addition de la table';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_order_status_transition();
+
+-- Status change with an optional reason, kept in the order's history.
+-- Runs as the caller, so the usual staff policies apply.
+CREATE OR REPLACE FUNCTION public.set_order_status(_order_id UUID, _status public.order_status, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.order_status_reason', COALESCE(btrim(_reason), ''), true);
+
+  UPDATE public.orders
+  SET status = _status
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commande introuvable';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', '', true);
+END;
+$$;
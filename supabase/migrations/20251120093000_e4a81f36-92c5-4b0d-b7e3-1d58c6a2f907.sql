@@ -0,0 +1,607 @@
+-- Cancelled orders, voided lines and partial refunds
+ALTER TYPE public.order_status ADD VALUE 'cancelled';
+
+ALTER TABLE public.order_items
+ADD COLUMN void_reason TEXT,
+ADD COLUMN voided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN voided_at TIMESTAMPTZ;
+
+-- Refunds give money back without reopening the share: the tab stays settled
+-- and the refunded amount comes off the takings
+ALTER TABLE public.payments
+ADD COLUMN refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+CREATE TABLE public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  refunded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_refunds_payment_id ON public.refunds(payment_id);
+CREATE INDEX idx_refunds_created_at ON public.refunds(created_at);
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view refunds"
+  ON public.refunds FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'server') OR public.has_role(auth.uid(), 'manager'));
+
+-- Refunds recorded before this were always for the whole share
+INSERT INTO public.refunds (payment_id, amount, reason, created_at)
+SELECT id, amount, 'Remboursement intégral', COALESCE(refunded_at, now())
+FROM public.payments
+WHERE status = 'refunded';
+
+UPDATE public.payments
+SET refunded_amount = amount
+WHERE status = 'refunded';
+
+-- Cancelling is possible until the order is served; leaving the cancelled
+-- state is a reopen like any other
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _steps public.order_status[] := enum_range(NULL::public.order_status);
+  _from INTEGER;
+  _to INTEGER;
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF OLD.status IN ('served', 'paid') THEN
+      RAISE EXCEPTION 'Une commande servie ne peut plus être annulée, effectuez un remboursement';
+    END IF;
+    IF NULLIF(btrim(current_setting('app.order_status_reason', true)), '') IS NULL THEN
+      RAISE EXCEPTION 'Indiquez le motif de l''annulation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  _from := array_position(_steps, OLD.status);
+  _to := array_position(_steps, NEW.status);
+
+  IF _to < _from THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Seul un administrateur peut rouvrir une commande';
+    END IF;
+    IF NULLIF(btrim(current_setting('app.order_status_reason', true)), '') IS NULL THEN
+      RAISE EXCEPTION 'Indiquez le motif de la réouverture';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF _to > _from + 1 THEN
+    RAISE EXCEPTION 'Une commande doit passer par chaque étape, dans l''ordre';
+  END IF;
+
+  IF NEW.status = 'paid' AND NEW.session_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Cette commande se règle avec l''addition de la table';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Bring an order's totals in line with its remaining lines. The service
+-- charge shrinks in proportion, the tip goes only once nothing is left.
+CREATE OR REPLACE FUNCTION public.refresh_order_total(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _previous NUMERIC;
+  _subtotal NUMERIC;
+  _service_charge NUMERIC;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  SELECT COALESCE(sum(subtotal), 0) INTO _subtotal
+  FROM public.order_items
+  WHERE order_id = _order_id AND status <> 'voided';
+
+  _previous := _order.total - _order.tip - _order.service_charge;
+  _service_charge := CASE
+    WHEN _previous > 0 THEN round(_order.service_charge * _subtotal / _previous, 2)
+    ELSE 0
+  END;
+
+  UPDATE public.orders
+  SET service_charge = _service_charge,
+    tip = CASE WHEN _subtotal > 0 THEN tip ELSE 0 END,
+    total = _subtotal + _service_charge + CASE WHEN _subtotal > 0 THEN tip ELSE 0 END
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Staff remove a line sent by mistake. Lines already paid for have to be
+-- refunded instead. Voiding the last line cancels the order.
+CREATE OR REPLACE FUNCTION public.void_order_item(_item_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.order_items%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée au personnel';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Indiquez le motif de l''annulation';
+  END IF;
+
+  SELECT * INTO _item FROM public.order_items WHERE id = _item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plat introuvable';
+  END IF;
+  IF _item.status = 'voided' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _item.order_id;
+  IF _order.status IN ('paid', 'cancelled') THEN
+    RAISE EXCEPTION 'Cette commande est close, effectuez un remboursement';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE session_id = _order.session_id AND status = 'paid' AND _item_id = ANY(order_item_ids)
+  ) THEN
+    RAISE EXCEPTION 'Ce plat a déjà été réglé, effectuez un remboursement';
+  END IF;
+
+  UPDATE public.order_items
+  SET status = 'voided', void_reason = btrim(_reason), voided_by = auth.uid(), voided_at = now()
+  WHERE id = _item_id;
+
+  PERFORM public.refresh_order_total(_order.id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_items WHERE order_id = _order.id AND status <> 'voided'
+  ) THEN
+    PERFORM set_config('app.order_status_reason', btrim(_reason), true);
+    UPDATE public.orders SET status = 'cancelled' WHERE id = _order.id;
+    PERFORM set_config('app.order_status_reason', '', true);
+  END IF;
+END;
+$$;
+
+-- Guests may cancel their own order for a couple of minutes, as long as the
+-- kitchen hasn't started it. Staff can cancel until it's served, with a reason.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _is_staff BOOLEAN;
+  _grace INTERVAL := interval '2 minutes';
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  _is_staff := public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager');
+
+  IF NOT FOUND OR NOT (
+    _is_staff
+    OR _order.guest_id = auth.uid()
+    OR public.is_session_member(_order.session_id)
+  ) THEN
+    RAISE EXCEPTION 'Commande introuvable';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  IF NOT _is_staff THEN
+    IF _order.status <> 'received' THEN
+      RAISE EXCEPTION 'La cuisine a déjà commencé votre commande, adressez-vous au personnel';
+    END IF;
+    IF now() - _order.created_at > _grace THEN
+      RAISE EXCEPTION 'Le délai d''annulation est dépassé, adressez-vous au personnel';
+    END IF;
+    _reason := 'Annulée par le client';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE session_id = _order.session_id AND status = 'paid'
+  ) THEN
+    RAISE EXCEPTION 'Une partie de l''addition a déjà été réglée, effectuez un remboursement';
+  END IF;
+
+  -- Checked again by the transition trigger, which also refuses served orders
+  PERFORM set_config('app.order_status_reason', COALESCE(btrim(_reason), ''), true);
+
+  UPDATE public.orders SET status = 'cancelled' WHERE id = _order_id;
+
+  UPDATE public.order_items
+  SET status = 'voided', void_reason = btrim(_reason), voided_by = auth.uid(), voided_at = now()
+  WHERE order_id = _order_id AND status <> 'voided';
+
+  PERFORM set_config('app.order_status_reason', '', true);
+  PERFORM public.refresh_order_total(_order_id);
+END;
+$$;
+
+-- The order follows its lines, except once it's settled one way or another
+CREATE OR REPLACE FUNCTION public.sync_order_with_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket_status public.ticket_status;
+  _order_status public.order_status;
+BEGIN
+  IF NEW.ticket_id IS NOT NULL THEN
+    SELECT CASE
+      WHEN bool_and(status IN ('done', 'served')) IS NOT FALSE THEN 'ready'::public.ticket_status
+      WHEN bool_and(status = 'pending') THEN 'received'::public.ticket_status
+      ELSE 'preparing'::public.ticket_status
+    END INTO _ticket_status
+    FROM public.order_items
+    WHERE ticket_id = NEW.ticket_id AND status <> 'voided';
+
+    UPDATE public.order_tickets
+    SET status = _ticket_status
+    WHERE id = NEW.ticket_id AND status <> _ticket_status;
+  END IF;
+
+  SELECT CASE
+    WHEN count(*) = 0 THEN NULL
+    WHEN bool_and(status = 'served') THEN 'served'::public.order_status
+    WHEN bool_and(status IN ('done', 'served')) THEN 'ready'::public.order_status
+    WHEN bool_and(status = 'pending') THEN 'received'::public.order_status
+    ELSE 'preparing'::public.order_status
+  END INTO _order_status
+  FROM public.order_items
+  WHERE order_id = NEW.order_id AND status <> 'voided';
+
+  UPDATE public.orders
+  SET status = _order_status
+  WHERE id = NEW.order_id AND status NOT IN ('paid', 'cancelled') AND status <> _order_status;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION public.record_refund(UUID);
+
+-- Staff record a refund once the provider has issued it. Without an amount,
+-- whatever hasn't been refunded yet goes back.
+CREATE OR REPLACE FUNCTION public.record_refund(_payment_id UUID, _reason TEXT, _amount NUMERIC DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _refundable NUMERIC;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée aux responsables';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Indiquez le motif du remboursement';
+  END IF;
+
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+  IF NOT FOUND OR _payment.status <> 'paid' THEN
+    RAISE EXCEPTION 'Seul un paiement réglé peut être remboursé';
+  END IF;
+
+  _refundable := _payment.amount - _payment.refunded_amount;
+  _amount := round(COALESCE(_amount, _refundable), 2);
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Le montant remboursé doit être compris entre 0,01 et % €', _refundable;
+  END IF;
+
+  INSERT INTO public.refunds (payment_id, amount, reason, refunded_by)
+  VALUES (_payment_id, _amount, btrim(_reason), auth.uid());
+
+  UPDATE public.payments
+  SET refunded_amount = refunded_amount + _amount, refunded_at = now()
+  WHERE id = _payment_id;
+END;
+$$;
+
+-- Same as before, cancelled orders stay cancelled
+CREATE OR REPLACE FUNCTION public.settle_paid_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = NEW.session_id AND status = 'pending'
+    )
+    AND (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = NEW.session_id AND status = 'paid')
+      >= (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = NEW.session_id)
+  THEN
+    UPDATE public.orders
+    SET status = 'paid'
+    WHERE session_id = NEW.session_id AND status NOT IN ('paid', 'cancelled');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, cancelled orders don't keep the tab open
+CREATE OR REPLACE FUNCTION public.close_paid_table_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.session_id IS NOT NULL
+    AND NEW.status = 'paid'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE session_id = NEW.session_id AND status NOT IN ('paid', 'cancelled')
+    )
+  THEN
+    UPDATE public.table_sessions
+    SET status = 'closed', closed_at = now()
+    WHERE id = NEW.session_id AND status = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, voided lines aren't printed
+CREATE OR REPLACE FUNCTION public.get_order_receipt(_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+
+  IF NOT FOUND OR NOT (
+    _order.guest_id = auth.uid()
+    OR public.is_session_member(_order.session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Commande introuvable';
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'restaurant', jsonb_build_object('name', r.name, 'address', r.address),
+      'table_number', t.table_number,
+      'order', jsonb_build_object(
+        'id', _order.id,
+        'status', _order.status,
+        'created_at', _order.created_at,
+        'total', _order.total,
+        'tip', _order.tip,
+        'service_charge', _order.service_charge
+      ),
+      'items', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'name', d.name,
+          'quantity', oi.quantity,
+          'unit_price', oi.unit_price,
+          'subtotal', oi.subtotal,
+          'tax_rate', oi.tax_rate,
+          'tax_amount', oi.tax_amount,
+          'comment', oi.comment,
+          'options_selected', COALESCE(oi.options_selected, '[]'::jsonb)
+        ) ORDER BY oi.created_at, oi.id)
+        FROM public.order_items oi
+        JOIN public.dishes d ON d.id = oi.dish_id
+        WHERE oi.order_id = _order.id AND oi.status <> 'voided'
+      ), '[]'::jsonb)
+    )
+    FROM public.tables t
+    JOIN public.restaurants r ON r.id = t.restaurant_id
+    WHERE t.id = _order.table_id
+  );
+END;
+$$;
+
+-- Same as before, voided lines are left out of splits by item
+CREATE OR REPLACE FUNCTION public.split_table_bill(_session_id UUID, _mode public.bill_split_mode, _shares JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+  _remaining NUMERIC;
+  _base NUMERIC;
+  _share JSONB;
+  _index INTEGER := 0;
+  _assigned_ids UUID[];
+  _unpaid_ids UUID[];
+  _item_ids UUID[];
+  _amount NUMERIC;
+  _allocated NUMERIC := 0;
+BEGIN
+  IF NOT (
+    public.is_session_member(_session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Addition introuvable';
+  END IF;
+
+  -- Lock the tab so two splits or a split and a payment can't interleave
+  PERFORM 1 FROM public.table_sessions WHERE id = _session_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée';
+  END IF;
+
+  IF jsonb_typeof(_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(_shares) = 0 THEN
+    RAISE EXCEPTION 'Indiquez au moins une part';
+  END IF;
+  _count := jsonb_array_length(_shares);
+
+  DELETE FROM public.payments WHERE session_id = _session_id AND status = 'pending';
+
+  SELECT
+    (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = _session_id)
+    - (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = _session_id AND status = 'paid')
+  INTO _remaining;
+
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Il ne reste rien à régler sur cette addition';
+  END IF;
+
+  IF _mode = 'even' THEN
+    _base := floor(_remaining * 100 / _count) / 100;
+    IF _base < 0.01 THEN
+      RAISE EXCEPTION 'Trop de parts pour le montant restant';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      -- Cents that don't divide evenly go to the first share
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || (_index + 1)),
+        CASE WHEN _index = 0 THEN _remaining - _base * (_count - 1) ELSE _base END
+      );
+      _index := _index + 1;
+    END LOOP;
+
+  ELSIF _mode = 'items' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = _session_id AND status = 'paid' AND split_mode <> 'items'
+    ) THEN
+      RAISE EXCEPTION 'Une partie de l''addition a déjà été réglée sans détail par plat';
+    END IF;
+
+    SELECT array_agg(item_id::UUID) INTO _assigned_ids
+    FROM jsonb_array_elements(_shares) s,
+      jsonb_array_elements_text(COALESCE(s->'order_item_ids', '[]'::jsonb)) item_id;
+
+    SELECT array_agg(oi.id) INTO _unpaid_ids
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.session_id = _session_id
+      AND oi.status <> 'voided'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.session_id = _session_id AND p.status = 'paid' AND oi.id = ANY(p.order_item_ids)
+      );
+
+    _assigned_ids := COALESCE(_assigned_ids, '{}');
+    _unpaid_ids := COALESCE(_unpaid_ids, '{}');
+
+    -- Every unpaid line must belong to exactly one share
+    IF cardinality(_assigned_ids) <> (SELECT count(DISTINCT id) FROM unnest(_assigned_ids) id)
+      OR NOT (_assigned_ids @> _unpaid_ids AND _unpaid_ids @> _assigned_ids)
+    THEN
+      RAISE EXCEPTION 'Chaque plat doit être attribué à une seule part';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+
+      SELECT array_agg(value::UUID) INTO _item_ids
+      FROM jsonb_array_elements_text(COALESCE(_share->'order_item_ids', '[]'::jsonb));
+
+      IF _item_ids IS NULL THEN
+        RAISE EXCEPTION 'La part % ne contient aucun plat', _index;
+      END IF;
+
+      -- Each line carries its share of the order's tip and service charge;
+      -- the last share absorbs the rounding
+      IF _index = _count THEN
+        _amount := _remaining - _allocated;
+      ELSE
+        SELECT round(sum(oi.subtotal * o.total / lines.items_total), 2) INTO _amount
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        JOIN (
+          SELECT order_id, sum(subtotal) AS items_total
+          FROM public.order_items
+          WHERE status <> 'voided'
+          GROUP BY order_id
+        ) lines ON lines.order_id = oi.order_id
+        WHERE oi.id = ANY(_item_ids);
+      END IF;
+      _allocated := _allocated + _amount;
+
+      INSERT INTO public.payments (session_id, split_mode, label, amount, order_item_ids)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        _amount,
+        _item_ids
+      );
+    END LOOP;
+
+  ELSE
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_shares) s
+      WHERE COALESCE((s->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Chaque part doit avoir un montant positif';
+    END IF;
+
+    SELECT sum(round((s->>'amount')::NUMERIC, 2)) INTO _amount FROM jsonb_array_elements(_shares) s;
+    IF _amount <> _remaining THEN
+      RAISE EXCEPTION 'La somme des parts (% €) ne correspond pas au reste à payer (% €)', _amount, _remaining;
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        round((_share->>'amount')::NUMERIC, 2)
+      );
+    END LOOP;
+  END IF;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- The admin order list loads orders a page at a time, newest first
+CREATE INDEX idx_orders_created_at ON public.orders(created_at DESC);
+CREATE INDEX idx_order_items_order_id ON public.order_items(order_id);
+
+-- ...and applies changes from realtime events instead of reloading everything,
+-- status history included
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_status_events;
@@ -0,0 +1,56 @@
+-- Options shared by every dish of a category, which the admin already edits
+-- but no migration created. Dated before the option overrides, which
+-- reference them. Databases where the tables were made by hand get whatever
+-- they're missing.
+CREATE TABLE IF NOT EXISTS public.category_option_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid()
+);
+
+ALTER TABLE public.category_option_groups
+  -- Name of the category, as in dishes.category
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL,
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL,
+  ADD COLUMN IF NOT EXISTS selection_type TEXT NOT NULL DEFAULT 'single' CHECK (selection_type IN ('single', 'multiple')),
+  ADD COLUMN IF NOT EXISTS is_required BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS display_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS enable_description BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_category_option_groups_category ON public.category_option_groups(category);
+
+CREATE TABLE IF NOT EXISTS public.category_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid()
+);
+
+ALTER TABLE public.category_options
+  ADD COLUMN IF NOT EXISTS option_group_id UUID NOT NULL REFERENCES public.category_option_groups(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL,
+  ADD COLUMN IF NOT EXISTS extra_price NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS display_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_category_options_option_group_id ON public.category_options(option_group_id);
+
+ALTER TABLE public.category_option_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.category_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view category option groups" ON public.category_option_groups;
+DROP POLICY IF EXISTS "Admins can manage category option groups" ON public.category_option_groups;
+DROP POLICY IF EXISTS "Anyone can view category options" ON public.category_options;
+DROP POLICY IF EXISTS "Admins can manage category options" ON public.category_options;
+
+CREATE POLICY "Anyone can view category option groups"
+  ON public.category_option_groups FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage category option groups"
+  ON public.category_option_groups FOR ALL
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+CREATE POLICY "Anyone can view category options"
+  ON public.category_options FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage category options"
+  ON public.category_options FOR ALL
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
@@ -0,0 +1,188 @@
+-- How a dish departs from what its category gives it: an inherited group or
+-- option can be hidden, moved, or (options only) priced differently
+CREATE TABLE public.dish_option_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dish_id UUID NOT NULL REFERENCES public.dishes(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES public.category_option_groups(id) ON DELETE CASCADE,
+  option_id UUID REFERENCES public.category_options(id) ON DELETE CASCADE,
+  is_hidden BOOLEAN NOT NULL DEFAULT false,
+  price_modifier NUMERIC,
+  display_order INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((group_id IS NULL) <> (option_id IS NULL)),
+  CHECK (group_id IS NULL OR price_modifier IS NULL),
+  UNIQUE (dish_id, group_id),
+  UNIQUE (dish_id, option_id)
+);
+
+ALTER TABLE public.dish_option_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view dish option overrides"
+  ON public.dish_option_overrides FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage dish option overrides"
+  ON public.dish_option_overrides FOR ALL
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+-- The options a dish actually offers: its category's groups with the dish's
+-- overrides applied, then its own groups. Used by the guest dialogs, the
+-- admin preview and price_order_item, so they can't disagree.
+-- Hidden groups and options are only returned for the admin, flagged.
+CREATE OR REPLACE FUNCTION public.resolve_dish_options(_dish_id UUID, _include_hidden BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH groups AS (
+    SELECT
+      g.id,
+      g.name,
+      g.is_required,
+      g.selection_type = 'multiple' AS allow_multiple,
+      COALESCE(ov.display_order, g.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.dishes d
+    JOIN public.category_option_groups g ON g.category = d.category
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = d.id AND ov.group_id = g.id
+    WHERE d.id = _dish_id
+    UNION ALL
+    SELECT g.id, g.name, g.is_required, g.allow_multiple, g.display_order, false, false
+    FROM public.dish_option_groups g
+    WHERE g.dish_id = _dish_id
+  ),
+  options AS (
+    SELECT
+      o.option_group_id AS group_id,
+      o.id,
+      o.name,
+      COALESCE(ov.price_modifier, o.extra_price) AS price_modifier,
+      COALESCE(ov.display_order, o.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.category_options o
+    JOIN groups g ON g.id = o.option_group_id AND g.inherited
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = _dish_id AND ov.option_id = o.id
+    UNION ALL
+    SELECT o.option_group_id, o.id, o.name, o.price_modifier, o.display_order, false, false
+    FROM public.dish_options o
+    JOIN groups g ON g.id = o.option_group_id AND NOT g.inherited
+  ),
+  resolved AS (
+    SELECT
+      g.*,
+      (
+        SELECT COALESCE(
+          jsonb_agg(
+            jsonb_build_object(
+              'id', o.id,
+              'name', o.name,
+              'price_modifier', o.price_modifier,
+              'is_hidden', o.is_hidden,
+              'inherited', o.inherited
+            )
+            ORDER BY o.display_order, o.name
+          ),
+          '[]'::jsonb
+        )
+        FROM options o
+        WHERE o.group_id = g.id AND (_include_hidden OR NOT o.is_hidden)
+      ) AS options
+    FROM groups g
+    WHERE _include_hidden OR NOT g.is_hidden
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'is_required', r.is_required,
+        'allow_multiple', r.allow_multiple,
+        'display_order', r.display_order,
+        'is_hidden', r.is_hidden,
+        'inherited', r.inherited,
+        'options', r.options
+      )
+      ORDER BY r.display_order, r.inherited DESC, r.name
+    ),
+    '[]'::jsonb
+  )
+  FROM resolved r
+  -- A group left without options can't be chosen from, even if required
+  WHERE _include_hidden OR jsonb_array_length(r.options) > 0;
+$$;
+
+-- Same as before, but validated and priced from resolve_dish_options instead
+-- of dish_options alone
+CREATE OR REPLACE FUNCTION public.price_order_item(_dish_id UUID, _option_ids UUID[])
+RETURNS TABLE (
+  options_selected JSONB,
+  options_total NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _groups JSONB := public.resolve_dish_options(_dish_id);
+  _group JSONB;
+  _selected_count INTEGER;
+BEGIN
+  _option_ids := COALESCE(_option_ids, ARRAY[]::UUID[]);
+
+  IF cardinality(_option_ids) <> (SELECT count(DISTINCT o) FROM unnest(_option_ids) o) THEN
+    RAISE EXCEPTION 'Option sélectionnée plusieurs fois';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_option_ids) AS selected(id)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_groups) g,
+        jsonb_array_elements(g->'options') o
+      WHERE (o->>'id')::UUID = selected.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option invalide pour ce plat';
+  END IF;
+
+  FOR _group IN
+    SELECT value FROM jsonb_array_elements(_groups)
+  LOOP
+    SELECT count(*) INTO _selected_count
+    FROM jsonb_array_elements(_group->'options') o
+    WHERE (o->>'id')::UUID = ANY(_option_ids);
+
+    IF (_group->>'is_required')::BOOLEAN AND _selected_count = 0 THEN
+      RAISE EXCEPTION 'Le choix "%" est obligatoire', _group->>'name';
+    END IF;
+
+    IF NOT (_group->>'allow_multiple')::BOOLEAN AND _selected_count > 1 THEN
+      RAISE EXCEPTION 'Un seul choix possible pour "%"', _group->>'name';
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'groupId', g.value->'id',
+          'groupName', g.value->'name',
+          'optionId', o.value->'id',
+          'optionName', o.value->'name',
+          'priceModifier', o.value->'price_modifier'
+        )
+        ORDER BY g.ordinality, o.ordinality
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(sum((o.value->>'price_modifier')::NUMERIC), 0)
+  FROM jsonb_array_elements(_groups) WITH ORDINALITY g
+  CROSS JOIN LATERAL jsonb_array_elements(g.value->'options') WITH ORDINALITY o
+  WHERE (o.value->>'id')::UUID = ANY(_option_ids);
+END;
+$$;
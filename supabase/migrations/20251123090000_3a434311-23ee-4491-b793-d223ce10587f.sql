@@ -0,0 +1,34 @@
+-- Menu categories, which the admin already reads but no migration created.
+-- Dishes and category option groups keep pointing to them by name.
+-- Databases where the table was made by hand get whatever it's missing.
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid()
+);
+
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL,
+  ADD COLUMN IF NOT EXISTS emoji TEXT,
+  ADD COLUMN IF NOT EXISTS display_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_restaurant_id_name ON public.categories(restaurant_id, name);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view categories" ON public.categories;
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+
+CREATE POLICY "Anyone can view categories"
+  ON public.categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage categories"
+  ON public.categories FOR ALL
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'));
+
+-- Every category a dish is already filed under, alphabetically
+INSERT INTO public.categories (restaurant_id, name, display_order)
+SELECT restaurant_id, category, row_number() OVER (PARTITION BY restaurant_id ORDER BY category) - 1
+FROM (SELECT DISTINCT restaurant_id, category FROM public.dishes) AS used
+ON CONFLICT (restaurant_id, name) DO NOTHING;
@@ -0,0 +1,58 @@
+-- When the guest menu shows a category. A window with visible_from after
+-- visible_until runs past midnight; either bound may be left open.
+ALTER TABLE public.categories
+ADD COLUMN is_visible BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN visible_from TIME,
+ADD COLUMN visible_until TIME;
+
+-- Dishes and option groups refer to their category by name, so a rename
+-- has to follow through
+CREATE OR REPLACE FUNCTION public.rename_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.dishes
+  SET category = NEW.name
+  WHERE restaurant_id = NEW.restaurant_id AND category = OLD.name;
+
+  UPDATE public.category_option_groups
+  SET category = NEW.name
+  WHERE category = OLD.name;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_category
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.rename_category();
+
+-- A category still holding dishes can't go, they would drop off the menu
+CREATE OR REPLACE FUNCTION public.check_category_unused()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _dish_count INTEGER;
+BEGIN
+  SELECT count(*) INTO _dish_count
+  FROM public.dishes
+  WHERE restaurant_id = OLD.restaurant_id AND category = OLD.name;
+
+  IF _dish_count > 0 THEN
+    RAISE EXCEPTION 'La catégorie "%" contient encore % plat(s)', OLD.name, _dish_count;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER check_category_unused
+  BEFORE DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_unused();
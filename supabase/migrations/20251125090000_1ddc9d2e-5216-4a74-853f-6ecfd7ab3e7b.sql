@@ -0,0 +1,321 @@
+-- How many choices a group takes, counted in units: an option taken twice
+-- counts twice. Left empty they follow is_required / allow_multiple.
+-- The first free_quantity units of a group, in display order, are included
+-- in the dish's price.
+ALTER TABLE public.dish_option_groups
+ADD COLUMN min_select INTEGER CHECK (min_select >= 0),
+ADD COLUMN max_select INTEGER CHECK (max_select >= 1),
+ADD COLUMN free_quantity INTEGER NOT NULL DEFAULT 0 CHECK (free_quantity >= 0),
+ADD CONSTRAINT dish_option_groups_select_range CHECK (max_select >= min_select);
+
+ALTER TABLE public.category_option_groups
+ADD COLUMN min_select INTEGER CHECK (min_select >= 0),
+ADD COLUMN max_select INTEGER CHECK (max_select >= 1),
+ADD COLUMN free_quantity INTEGER NOT NULL DEFAULT 0 CHECK (free_quantity >= 0),
+ADD CONSTRAINT category_option_groups_select_range CHECK (max_select >= min_select);
+
+-- How many times a single option can be taken, e.g. up to 3 extra sauces
+ALTER TABLE public.dish_options
+ADD COLUMN max_quantity INTEGER NOT NULL DEFAULT 1 CHECK (max_quantity >= 1);
+
+ALTER TABLE public.category_options
+ADD COLUMN max_quantity INTEGER NOT NULL DEFAULT 1 CHECK (max_quantity >= 1);
+
+-- Same as before, plus the selection bounds (with is_required and
+-- allow_multiple derived from them) and the options' max quantity
+CREATE OR REPLACE FUNCTION public.resolve_dish_options(_dish_id UUID, _include_hidden BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH groups AS (
+    SELECT
+      g.id,
+      g.name,
+      COALESCE(g.min_select, CASE WHEN g.is_required THEN 1 ELSE 0 END) AS min_select,
+      CASE
+        WHEN g.max_select IS NOT NULL THEN g.max_select
+        WHEN g.selection_type = 'multiple' THEN NULL
+        ELSE 1
+      END AS max_select,
+      g.free_quantity,
+      COALESCE(ov.display_order, g.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.dishes d
+    JOIN public.category_option_groups g ON g.category = d.category
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = d.id AND ov.group_id = g.id
+    WHERE d.id = _dish_id
+    UNION ALL
+    SELECT
+      g.id,
+      g.name,
+      COALESCE(g.min_select, CASE WHEN g.is_required THEN 1 ELSE 0 END),
+      CASE
+        WHEN g.max_select IS NOT NULL THEN g.max_select
+        WHEN g.allow_multiple THEN NULL
+        ELSE 1
+      END,
+      g.free_quantity,
+      g.display_order,
+      false,
+      false
+    FROM public.dish_option_groups g
+    WHERE g.dish_id = _dish_id
+  ),
+  options AS (
+    SELECT
+      o.option_group_id AS group_id,
+      o.id,
+      o.name,
+      COALESCE(ov.price_modifier, o.extra_price) AS price_modifier,
+      o.max_quantity,
+      COALESCE(ov.display_order, o.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.category_options o
+    JOIN groups g ON g.id = o.option_group_id AND g.inherited
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = _dish_id AND ov.option_id = o.id
+    UNION ALL
+    SELECT o.option_group_id, o.id, o.name, o.price_modifier, o.max_quantity, o.display_order, false, false
+    FROM public.dish_options o
+    JOIN groups g ON g.id = o.option_group_id AND NOT g.inherited
+  ),
+  resolved AS (
+    SELECT
+      g.*,
+      (
+        SELECT COALESCE(
+          jsonb_agg(
+            jsonb_build_object(
+              'id', o.id,
+              'name', o.name,
+              'price_modifier', o.price_modifier,
+              'max_quantity', o.max_quantity,
+              'is_hidden', o.is_hidden,
+              'inherited', o.inherited
+            )
+            ORDER BY o.display_order, o.name
+          ),
+          '[]'::jsonb
+        )
+        FROM options o
+        WHERE o.group_id = g.id AND (_include_hidden OR NOT o.is_hidden)
+      ) AS options
+    FROM groups g
+    WHERE _include_hidden OR NOT g.is_hidden
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'is_required', r.min_select > 0,
+        'allow_multiple', r.max_select IS NULL OR r.max_select > 1,
+        'min_select', r.min_select,
+        'max_select', r.max_select,
+        'free_quantity', r.free_quantity,
+        'display_order', r.display_order,
+        'is_hidden', r.is_hidden,
+        'inherited', r.inherited,
+        'options', r.options
+      )
+      ORDER BY r.display_order, r.inherited DESC, r.name
+    ),
+    '[]'::jsonb
+  )
+  FROM resolved r
+  -- A group left without options can't be chosen from, even if required
+  WHERE _include_hidden OR jsonb_array_length(r.options) > 0;
+$$;
+
+-- Same as before, except that an option id is listed once per unit taken.
+-- Each group's bounds and each option's max quantity are enforced, and the
+-- group's included units are not charged. Every line of options_selected
+-- carries its quantity and what it costs in all.
+CREATE OR REPLACE FUNCTION public.price_order_item(_dish_id UUID, _option_ids UUID[])
+RETURNS TABLE (
+  options_selected JSONB,
+  options_total NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _groups JSONB := public.resolve_dish_options(_dish_id);
+  _group JSONB;
+  _option JSONB;
+  _quantity INTEGER;
+  _selected_count INTEGER;
+  _min INTEGER;
+  _max INTEGER;
+BEGIN
+  _option_ids := COALESCE(_option_ids, ARRAY[]::UUID[]);
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_option_ids) AS selected(id)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_groups) g,
+        jsonb_array_elements(g->'options') o
+      WHERE (o->>'id')::UUID = selected.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option invalide pour ce plat';
+  END IF;
+
+  FOR _group IN
+    SELECT value FROM jsonb_array_elements(_groups)
+  LOOP
+    _selected_count := 0;
+
+    FOR _option IN
+      SELECT value FROM jsonb_array_elements(_group->'options')
+    LOOP
+      SELECT count(*) INTO _quantity FROM unnest(_option_ids) id WHERE id = (_option->>'id')::UUID;
+
+      IF _quantity > (_option->>'max_quantity')::INTEGER THEN
+        IF (_option->>'max_quantity')::INTEGER = 1 THEN
+          RAISE EXCEPTION 'Option sélectionnée plusieurs fois';
+        END IF;
+        RAISE EXCEPTION '"%" : % au plus', _option->>'name', _option->>'max_quantity';
+      END IF;
+
+      _selected_count := _selected_count + _quantity;
+    END LOOP;
+
+    _min := (_group->>'min_select')::INTEGER;
+    _max := (_group->>'max_select')::INTEGER;
+
+    IF _selected_count < _min THEN
+      IF _min = 1 THEN
+        RAISE EXCEPTION 'Le choix "%" est obligatoire', _group->>'name';
+      END IF;
+      RAISE EXCEPTION 'Choisissez au moins % option(s) pour "%"', _min, _group->>'name';
+    END IF;
+
+    IF _selected_count > _max THEN
+      IF _max = 1 THEN
+        RAISE EXCEPTION 'Un seul choix possible pour "%"', _group->>'name';
+      END IF;
+      RAISE EXCEPTION 'Au plus % option(s) pour "%"', _max, _group->>'name';
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  WITH selected AS (
+    SELECT id, count(*)::INTEGER AS quantity
+    FROM unnest(_option_ids) id
+    GROUP BY id
+  ),
+  units AS (
+    SELECT
+      g.ordinality AS group_index,
+      o.ordinality AS option_index,
+      g.value AS grp,
+      o.value AS opt,
+      s.quantity,
+      -- Units taken in the group so far, this option included
+      sum(s.quantity) OVER (PARTITION BY g.ordinality ORDER BY o.ordinality)::INTEGER AS running
+    FROM jsonb_array_elements(_groups) WITH ORDINALITY g
+    CROSS JOIN LATERAL jsonb_array_elements(g.value->'options') WITH ORDINALITY o
+    JOIN selected s ON s.id = (o.value->>'id')::UUID
+  ),
+  charged AS (
+    SELECT
+      u.*,
+      (u.opt->>'price_modifier')::NUMERIC
+        * LEAST(u.quantity, GREATEST(0, u.running - (u.grp->>'free_quantity')::INTEGER)) AS amount
+    FROM units u
+  )
+  SELECT
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'groupId', c.grp->'id',
+          'groupName', c.grp->'name',
+          'optionId', c.opt->'id',
+          'optionName', c.opt->'name',
+          'quantity', c.quantity,
+          'priceModifier', c.amount
+        )
+        ORDER BY c.group_index, c.option_index
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(sum(c.amount), 0)
+  FROM charged c;
+END;
+$$;
+
+-- Same as before, each cart option is passed on once per unit taken
+CREATE OR REPLACE FUNCTION public.submit_session_cart(_session_id UUID, _idempotency_key UUID, _tip JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_token TEXT;
+  _item_ids UUID[];
+  _items JSONB;
+  _order_id UUID;
+BEGIN
+  IF NOT public.is_session_member(_session_id) THEN
+    RAISE EXCEPTION 'Vous ne faites pas partie de cette table';
+  END IF;
+
+  -- A retry of a submission that already went through
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT t.qr_code_data INTO _table_token
+  FROM public.table_sessions s
+  JOIN public.tables t ON t.id = s.table_id
+  WHERE s.id = _session_id AND s.status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée, veuillez rescanner le QR code';
+  END IF;
+
+  -- Lock the cart so two guests submitting at once can't both send it
+  WITH locked AS (
+    SELECT * FROM public.cart_items
+    WHERE session_id = _session_id
+    ORDER BY created_at
+    FOR UPDATE
+  )
+  SELECT
+    array_agg(id),
+    jsonb_agg(jsonb_build_object(
+      'dish_id', dish_id,
+      'quantity', quantity,
+      'comment', comment,
+      'option_ids', COALESCE(
+        (
+          SELECT jsonb_agg(opt->'optionId')
+          FROM jsonb_array_elements(selected_options) opt,
+            generate_series(1, LEAST(COALESCE((opt->>'quantity')::INTEGER, 1), 99))
+        ),
+        '[]'::jsonb
+      )
+    ) ORDER BY created_at)
+  INTO _item_ids, _items
+  FROM locked;
+
+  IF _item_ids IS NULL THEN
+    RAISE EXCEPTION 'Le panier est vide';
+  END IF;
+
+  _order_id := public.place_order(_table_token, _items, _idempotency_key, _tip);
+
+  DELETE FROM public.cart_items WHERE id = ANY(_item_ids);
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,384 @@
+-- A group can depend on an option of another group: it is only offered
+-- once that option is taken (e.g. "Cuisson" once the steak is beef).
+-- Dish groups depend on the dish's own options, category groups on the
+-- category's.
+ALTER TABLE public.category_option_groups
+ADD COLUMN parent_option_id UUID REFERENCES public.category_options(id) ON DELETE CASCADE;
+
+ALTER TABLE public.dish_option_groups
+ADD COLUMN parent_option_id UUID REFERENCES public.dish_options(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_category_option_groups_parent ON public.category_option_groups(parent_option_id);
+CREATE INDEX idx_dish_option_groups_parent ON public.dish_option_groups(parent_option_id);
+
+-- Same as before, plus each group's parent option. The groups stay a flat
+-- list, the parent option ids give the tree.
+CREATE OR REPLACE FUNCTION public.resolve_dish_options(_dish_id UUID, _include_hidden BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH groups AS (
+    SELECT
+      g.id,
+      g.name,
+      COALESCE(g.min_select, CASE WHEN g.is_required THEN 1 ELSE 0 END) AS min_select,
+      CASE
+        WHEN g.max_select IS NOT NULL THEN g.max_select
+        WHEN g.selection_type = 'multiple' THEN NULL
+        ELSE 1
+      END AS max_select,
+      g.free_quantity,
+      g.parent_option_id,
+      COALESCE(ov.display_order, g.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.dishes d
+    JOIN public.category_option_groups g ON g.category = d.category
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = d.id AND ov.group_id = g.id
+    WHERE d.id = _dish_id
+    UNION ALL
+    SELECT
+      g.id,
+      g.name,
+      COALESCE(g.min_select, CASE WHEN g.is_required THEN 1 ELSE 0 END),
+      CASE
+        WHEN g.max_select IS NOT NULL THEN g.max_select
+        WHEN g.allow_multiple THEN NULL
+        ELSE 1
+      END,
+      g.free_quantity,
+      g.parent_option_id,
+      g.display_order,
+      false,
+      false
+    FROM public.dish_option_groups g
+    WHERE g.dish_id = _dish_id
+  ),
+  options AS (
+    SELECT
+      o.option_group_id AS group_id,
+      o.id,
+      o.name,
+      COALESCE(ov.price_modifier, o.extra_price) AS price_modifier,
+      o.max_quantity,
+      COALESCE(ov.display_order, o.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.category_options o
+    JOIN groups g ON g.id = o.option_group_id AND g.inherited
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = _dish_id AND ov.option_id = o.id
+    UNION ALL
+    SELECT o.option_group_id, o.id, o.name, o.price_modifier, o.max_quantity, o.display_order, false, false
+    FROM public.dish_options o
+    JOIN groups g ON g.id = o.option_group_id AND NOT g.inherited
+  ),
+  resolved AS (
+    SELECT
+      g.*,
+      (
+        SELECT COALESCE(
+          jsonb_agg(
+            jsonb_build_object(
+              'id', o.id,
+              'name', o.name,
+              'price_modifier', o.price_modifier,
+              'max_quantity', o.max_quantity,
+              'is_hidden', o.is_hidden,
+              'inherited', o.inherited
+            )
+            ORDER BY o.display_order, o.name
+          ),
+          '[]'::jsonb
+        )
+        FROM options o
+        WHERE o.group_id = g.id AND (_include_hidden OR NOT o.is_hidden)
+      ) AS options
+    FROM groups g
+    WHERE _include_hidden OR NOT g.is_hidden
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'is_required', r.min_select > 0,
+        'allow_multiple', r.max_select IS NULL OR r.max_select > 1,
+        'min_select', r.min_select,
+        'max_select', r.max_select,
+        'free_quantity', r.free_quantity,
+        'parent_option_id', r.parent_option_id,
+        'display_order', r.display_order,
+        'is_hidden', r.is_hidden,
+        'inherited', r.inherited,
+        'options', r.options
+      )
+      ORDER BY r.display_order, r.inherited DESC, r.name
+    ),
+    '[]'::jsonb
+  )
+  FROM resolved r
+  -- A group left without options can't be chosen from, even if required
+  WHERE _include_hidden OR jsonb_array_length(r.options) > 0;
+$$;
+
+-- Turns the flat lines of price_order_item into a tree: the lines of a
+-- group that depends on an option go in that option's "children".
+CREATE OR REPLACE FUNCTION public.nest_options_selected(_lines JSONB, _parent_option_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN (
+    SELECT COALESCE(
+      jsonb_agg(
+        (line.value - 'parentOptionId')
+          || CASE
+            WHEN jsonb_array_length(nested.children) > 0 THEN jsonb_build_object('children', nested.children)
+            ELSE '{}'::jsonb
+          END
+        ORDER BY line.ordinality
+      ),
+      '[]'::jsonb
+    )
+    FROM jsonb_array_elements(_lines) WITH ORDINALITY line
+    CROSS JOIN LATERAL (
+      SELECT public.nest_options_selected(_lines, (line.value->>'optionId')::UUID) AS children
+    ) nested
+    WHERE (line.value->>'parentOptionId')::UUID IS NOT DISTINCT FROM _parent_option_id
+  );
+END;
+$$;
+
+-- Same as before, except that a group is only checked once its parent
+-- option is taken, and choosing in a group that isn't offered is an error.
+-- options_selected is now a tree, see nest_options_selected.
+CREATE OR REPLACE FUNCTION public.price_order_item(_dish_id UUID, _option_ids UUID[])
+RETURNS TABLE (
+  options_selected JSONB,
+  options_total NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _groups JSONB := public.resolve_dish_options(_dish_id);
+  _group JSONB;
+  _option JSONB;
+  _quantity INTEGER;
+  _selected_count INTEGER;
+  _min INTEGER;
+  _max INTEGER;
+  _active UUID[];
+  _active_count INTEGER;
+BEGIN
+  _option_ids := COALESCE(_option_ids, ARRAY[]::UUID[]);
+
+  -- The groups offered given the choices made: the top-level ones, then
+  -- those whose parent option is taken in a group already offered
+  _active := ARRAY(
+    SELECT (g->>'id')::UUID FROM jsonb_array_elements(_groups) g WHERE g->>'parent_option_id' IS NULL
+  );
+  LOOP
+    _active_count := cardinality(_active);
+    _active := _active || ARRAY(
+      SELECT (child->>'id')::UUID
+      FROM jsonb_array_elements(_groups) child
+      WHERE NOT (child->>'id')::UUID = ANY(_active)
+        AND (child->>'parent_option_id')::UUID = ANY(_option_ids)
+        AND EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(_groups) parent,
+            jsonb_array_elements(parent->'options') o
+          WHERE (parent->>'id')::UUID = ANY(_active)
+            AND o->>'id' = child->>'parent_option_id'
+        )
+    );
+    EXIT WHEN cardinality(_active) = _active_count;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_option_ids) AS selected(id)
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_groups) g,
+        jsonb_array_elements(g->'options') o
+      WHERE (o->>'id')::UUID = selected.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Option invalide pour ce plat';
+  END IF;
+
+  FOR _group IN
+    SELECT value FROM jsonb_array_elements(_groups)
+  LOOP
+    IF NOT (_group->>'id')::UUID = ANY(_active) THEN
+      IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(_group->'options') o
+        WHERE (o->>'id')::UUID = ANY(_option_ids)
+      ) THEN
+        RAISE EXCEPTION 'Le choix "%" ne s''applique pas à cette sélection', _group->>'name';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    _selected_count := 0;
+
+    FOR _option IN
+      SELECT value FROM jsonb_array_elements(_group->'options')
+    LOOP
+      SELECT count(*) INTO _quantity FROM unnest(_option_ids) id WHERE id = (_option->>'id')::UUID;
+
+      IF _quantity > (_option->>'max_quantity')::INTEGER THEN
+        IF (_option->>'max_quantity')::INTEGER = 1 THEN
+          RAISE EXCEPTION 'Option sélectionnée plusieurs fois';
+        END IF;
+        RAISE EXCEPTION '"%" : % au plus', _option->>'name', _option->>'max_quantity';
+      END IF;
+
+      _selected_count := _selected_count + _quantity;
+    END LOOP;
+
+    _min := (_group->>'min_select')::INTEGER;
+    _max := (_group->>'max_select')::INTEGER;
+
+    IF _selected_count < _min THEN
+      IF _min = 1 THEN
+        RAISE EXCEPTION 'Le choix "%" est obligatoire', _group->>'name';
+      END IF;
+      RAISE EXCEPTION 'Choisissez au moins % option(s) pour "%"', _min, _group->>'name';
+    END IF;
+
+    IF _selected_count > _max THEN
+      IF _max = 1 THEN
+        RAISE EXCEPTION 'Un seul choix possible pour "%"', _group->>'name';
+      END IF;
+      RAISE EXCEPTION 'Au plus % option(s) pour "%"', _max, _group->>'name';
+    END IF;
+  END LOOP;
+
+  -- Options of groups not offered were rejected above, so only the offered
+  -- groups have lines below
+  RETURN QUERY
+  WITH selected AS (
+    SELECT id, count(*)::INTEGER AS quantity
+    FROM unnest(_option_ids) id
+    GROUP BY id
+  ),
+  units AS (
+    SELECT
+      g.ordinality AS group_index,
+      o.ordinality AS option_index,
+      g.value AS grp,
+      o.value AS opt,
+      s.quantity,
+      -- Units taken in the group so far, this option included
+      sum(s.quantity) OVER (PARTITION BY g.ordinality ORDER BY o.ordinality)::INTEGER AS running
+    FROM jsonb_array_elements(_groups) WITH ORDINALITY g
+    CROSS JOIN LATERAL jsonb_array_elements(g.value->'options') WITH ORDINALITY o
+    JOIN selected s ON s.id = (o.value->>'id')::UUID
+  ),
+  charged AS (
+    SELECT
+      u.*,
+      (u.opt->>'price_modifier')::NUMERIC
+        * LEAST(u.quantity, GREATEST(0, u.running - (u.grp->>'free_quantity')::INTEGER)) AS amount
+    FROM units u
+  )
+  SELECT
+    public.nest_options_selected(
+      COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'groupId', c.grp->'id',
+            'groupName', c.grp->'name',
+            'optionId', c.opt->'id',
+            'optionName', c.opt->'name',
+            'quantity', c.quantity,
+            'priceModifier', c.amount,
+            'parentOptionId', c.grp->'parent_option_id'
+          )
+          ORDER BY c.group_index, c.option_index
+        ),
+        '[]'::jsonb
+      )
+    ),
+    COALESCE(sum(c.amount), 0)
+  FROM charged c;
+END;
+$$;
+
+-- Same as before, the cart's options being a tree too
+CREATE OR REPLACE FUNCTION public.submit_session_cart(_session_id UUID, _idempotency_key UUID, _tip JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table_token TEXT;
+  _item_ids UUID[];
+  _items JSONB;
+  _order_id UUID;
+BEGIN
+  IF NOT public.is_session_member(_session_id) THEN
+    RAISE EXCEPTION 'Vous ne faites pas partie de cette table';
+  END IF;
+
+  -- A retry of a submission that already went through
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT t.qr_code_data INTO _table_token
+  FROM public.table_sessions s
+  JOIN public.tables t ON t.id = s.table_id
+  WHERE s.id = _session_id AND s.status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée, veuillez rescanner le QR code';
+  END IF;
+
+  -- Lock the cart so two guests submitting at once can't both send it
+  WITH locked AS (
+    SELECT * FROM public.cart_items
+    WHERE session_id = _session_id
+    ORDER BY created_at
+    FOR UPDATE
+  )
+  SELECT
+    array_agg(id),
+    jsonb_agg(jsonb_build_object(
+      'dish_id', dish_id,
+      'quantity', quantity,
+      'comment', comment,
+      'option_ids', COALESCE(
+        (
+          SELECT jsonb_agg(opt->'optionId')
+          FROM jsonb_path_query(selected_options, 'strict $.** ? (exists (@.optionId))') opt,
+            generate_series(1, LEAST(COALESCE((opt->>'quantity')::INTEGER, 1), 99))
+        ),
+        '[]'::jsonb
+      )
+    ) ORDER BY created_at)
+  INTO _item_ids, _items
+  FROM locked;
+
+  IF _item_ids IS NULL THEN
+    RAISE EXCEPTION 'Le panier est vide';
+  END IF;
+
+  _order_id := public.place_order(_table_token, _items, _idempotency_key, _tip);
+
+  DELETE FROM public.cart_items WHERE id = ANY(_item_ids);
+
+  RETURN _order_id;
+END;
+$$;
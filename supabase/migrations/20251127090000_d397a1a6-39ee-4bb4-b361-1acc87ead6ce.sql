@@ -0,0 +1,14 @@
+-- ensure_table_session takes a bare table id and checks no QR token: it is
+-- only meant to be reached through join_table_session and place_order,
+-- which resolve the current token first. Called directly, it let anyone
+-- knowing a table's id join its tab.
+REVOKE EXECUTE ON FUNCTION public.ensure_table_session(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A member can change their display name, not move into another session:
+-- the row must stay in a session they already belonged to
+DROP POLICY "Members can update their own membership" ON public.table_session_members;
+
+CREATE POLICY "Members can update their own membership"
+  ON public.table_session_members FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND public.is_session_member(session_id));
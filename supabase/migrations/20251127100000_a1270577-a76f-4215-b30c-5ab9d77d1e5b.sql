@@ -0,0 +1,67 @@
+-- Whether the caller may record a payment of a share through a provider.
+-- Guests call it before charging their card, so nobody is charged for a
+-- payment record_payment would then refuse.
+CREATE OR REPLACE FUNCTION public.authorize_payment(_payment_id UUID, _provider TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _mock_enabled BOOLEAN;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paiement introuvable';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.is_session_member(_payment.session_id) THEN
+    RAISE EXCEPTION 'Paiement introuvable';
+  END IF;
+
+  SELECT r.mock_payments_enabled INTO _mock_enabled
+  FROM public.table_sessions s
+  JOIN public.tables t ON t.id = s.table_id
+  JOIN public.restaurants r ON r.id = t.restaurant_id
+  WHERE s.id = _payment.session_id;
+
+  IF _provider <> 'mock' OR NOT _mock_enabled THEN
+    RAISE EXCEPTION 'Ce paiement doit être confirmé par le restaurant';
+  END IF;
+END;
+$$;
+
+-- Same as before, with the checks moved to authorize_payment
+CREATE OR REPLACE FUNCTION public.record_payment(_payment_id UUID, _provider TEXT, _provider_reference TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  PERFORM public.authorize_payment(_payment_id, _provider);
+
+  -- Already recorded: a retry after a network failure
+  IF _payment.status <> 'pending' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid', paid_at = now(), provider = _provider, provider_reference = NULLIF(_provider_reference, '')
+  WHERE id = _payment_id;
+END;
+$$;
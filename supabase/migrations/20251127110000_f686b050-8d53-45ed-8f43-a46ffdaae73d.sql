@@ -0,0 +1,26 @@
+-- Same as before, but lines only follow the order up to 'served'. Settling
+-- the tab marks orders paid without anything reaching the tables, so lines
+-- still cooking stay on the kitchen screen.
+CREATE OR REPLACE FUNCTION public.sync_items_with_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'preparing' AND pg_trigger_depth() = 1 THEN
+    UPDATE public.order_items
+    SET status = 'cooking'
+    WHERE order_id = NEW.id AND status = 'pending';
+  ELSIF NEW.status = 'ready' THEN
+    UPDATE public.order_items
+    SET status = 'done'
+    WHERE order_id = NEW.id AND status IN ('pending', 'cooking');
+  ELSIF NEW.status = 'served' THEN
+    UPDATE public.order_items
+    SET status = 'served'
+    WHERE order_id = NEW.id AND status IN ('pending', 'cooking', 'done');
+  END IF;
+  RETURN NEW;
+END;
+$$;
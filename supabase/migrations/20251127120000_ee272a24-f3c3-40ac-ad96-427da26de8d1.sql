@@ -0,0 +1,58 @@
+-- Whether a tab's payments cover everything ordered, with no share still
+-- waiting to be paid
+CREATE OR REPLACE FUNCTION public.is_session_settled(_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = _session_id AND status = 'pending'
+    )
+    AND (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = _session_id AND status = 'paid')
+      >= (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = _session_id);
+$$;
+
+-- Same as before, but only orders already served are marked paid. Orders
+-- still in the kitchen keep their place on the screens and are marked paid
+-- once they reach the table.
+CREATE OR REPLACE FUNCTION public.settle_paid_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND public.is_session_settled(NEW.session_id) THEN
+    UPDATE public.orders
+    SET status = 'paid'
+    WHERE session_id = NEW.session_id AND status = 'served';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- An order served after its tab was paid is settled right away
+CREATE OR REPLACE FUNCTION public.settle_served_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_session_settled(NEW.session_id) THEN
+    UPDATE public.orders
+    SET status = 'paid'
+    WHERE id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_served_order
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'served' AND OLD.status IS DISTINCT FROM 'served' AND NEW.session_id IS NOT NULL)
+  EXECUTE FUNCTION public.settle_served_order();
@@ -0,0 +1,63 @@
+-- Whether the caller may refund this amount of a share. Staff call it
+-- before the provider gives the money back, so no refund is issued that
+-- record_refund would then refuse.
+CREATE OR REPLACE FUNCTION public.authorize_refund(_payment_id UUID, _reason TEXT, _amount NUMERIC DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _refundable NUMERIC;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée aux responsables';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Indiquez le motif du remboursement';
+  END IF;
+
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id;
+  IF NOT FOUND OR _payment.status <> 'paid' THEN
+    RAISE EXCEPTION 'Seul un paiement réglé peut être remboursé';
+  END IF;
+
+  _refundable := _payment.amount - _payment.refunded_amount;
+  _amount := round(COALESCE(_amount, _refundable), 2);
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Le montant remboursé doit être compris entre 0,01 et % €', _refundable;
+  END IF;
+END;
+$$;
+
+-- Same as before, with the checks moved to authorize_refund
+CREATE OR REPLACE FUNCTION public.record_refund(_payment_id UUID, _reason TEXT, _amount NUMERIC DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  PERFORM public.authorize_refund(_payment_id, _reason, _amount);
+
+  _amount := round(COALESCE(_amount, _payment.amount - _payment.refunded_amount), 2);
+
+  INSERT INTO public.refunds (payment_id, amount, reason, refunded_by)
+  VALUES (_payment_id, _amount, btrim(_reason), auth.uid());
+
+  UPDATE public.payments
+  SET refunded_amount = refunded_amount + _amount, refunded_at = now()
+  WHERE id = _payment_id;
+END;
+$$;
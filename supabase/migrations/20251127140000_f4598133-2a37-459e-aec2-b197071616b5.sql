@@ -0,0 +1,98 @@
+-- Opening hours of categories are in the restaurant's local time
+ALTER TABLE public.restaurants
+ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Europe/Paris';
+
+-- Whether guests can order from the category at the given time, as on the
+-- menu. A window whose start is after its end runs past midnight.
+CREATE OR REPLACE FUNCTION public.is_category_open(_category public.categories, _at TIMESTAMPTZ DEFAULT now())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _category.is_visible AND CASE
+    WHEN _category.visible_from > _category.visible_until
+      THEN local_time >= _category.visible_from OR local_time < _category.visible_until
+    ELSE (_category.visible_from IS NULL OR local_time >= _category.visible_from)
+      AND (_category.visible_until IS NULL OR local_time < _category.visible_until)
+  END
+  FROM (
+    SELECT (_at AT TIME ZONE r.timezone)::TIME AS local_time
+    FROM public.restaurants r
+    WHERE r.id = _category.restaurant_id
+  ) AS restaurant;
+$$;
+
+-- Same as before, dishes of a category closed right now can't be ordered
+CREATE OR REPLACE FUNCTION public.add_order_items(_order_id UUID, _restaurant_id UUID, _items JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _dish public.dishes%ROWTYPE;
+  _quantity INTEGER;
+  _option_ids UUID[];
+  _priced RECORD;
+  _subtotal NUMERIC;
+  _tax_rate NUMERIC;
+  _total NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(_items) IS DISTINCT FROM 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'La commande est vide';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT * INTO _dish
+    FROM public.dishes
+    WHERE id = (_item->>'dish_id')::UUID
+      AND restaurant_id = _restaurant_id
+      AND is_available = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Un plat de votre panier n''est plus disponible';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.categories c
+      WHERE c.restaurant_id = _restaurant_id
+        AND c.name = _dish.category
+        AND NOT public.is_category_open(c)
+    ) THEN
+      RAISE EXCEPTION '"%" n''est pas servi en ce moment', _dish.name;
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    IF _quantity IS NULL OR _quantity < 1 OR _quantity > 99 THEN
+      RAISE EXCEPTION 'Quantité invalide pour "%"', _dish.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::UUID), ARRAY[]::UUID[]) INTO _option_ids
+    FROM jsonb_array_elements_text(COALESCE(_item->'option_ids', '[]'::jsonb));
+
+    SELECT * INTO _priced FROM public.price_order_item(_dish.id, _option_ids);
+
+    _subtotal := (_dish.price + _priced.options_total) * _quantity;
+    _tax_rate := public.get_dish_tax_rate(_dish.id);
+    _total := _total + _subtotal;
+
+    INSERT INTO public.order_items (order_id, dish_id, quantity, unit_price, subtotal, comment, options_selected, tax_rate, tax_amount)
+    VALUES (
+      _order_id,
+      _dish.id,
+      _quantity,
+      _dish.price,
+      _subtotal,
+      NULLIF(btrim(_item->>'comment'), ''),
+      _priced.options_selected,
+      _tax_rate,
+      round(_subtotal * _tax_rate / (100 + _tax_rate), 2)
+    );
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
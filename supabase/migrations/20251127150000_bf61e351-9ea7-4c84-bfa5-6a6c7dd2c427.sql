@@ -0,0 +1,14 @@
+-- A cart line can be edited, not moved into another table's cart: once
+-- updated it must still sit in an open session the guest belongs to
+DROP POLICY "Members can update their session cart" ON public.cart_items;
+
+CREATE POLICY "Members can update their session cart"
+  ON public.cart_items FOR UPDATE
+  USING (public.is_session_member(session_id))
+  WITH CHECK (
+    public.is_session_member(session_id)
+    AND EXISTS (
+      SELECT 1 FROM public.table_sessions
+      WHERE table_sessions.id = cart_items.session_id AND table_sessions.status = 'open'
+    )
+  );
@@ -0,0 +1,3 @@
+-- A share whose card payment is under way. Added on its own: a new enum
+-- value can't be used in the transaction that adds it.
+ALTER TYPE public.payment_status ADD VALUE 'processing' AFTER 'pending';
@@ -0,0 +1,287 @@
+-- Same as before, but a share paid through a provider is held in
+-- 'processing' while the card is charged, so the bill can't be split again
+-- under it. Retries find it already held.
+CREATE OR REPLACE FUNCTION public.authorize_payment(_payment_id UUID, _provider TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _mock_enabled BOOLEAN;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paiement introuvable';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    IF NOT public.is_session_member(_payment.session_id) THEN
+      RAISE EXCEPTION 'Paiement introuvable';
+    END IF;
+
+    SELECT r.mock_payments_enabled INTO _mock_enabled
+    FROM public.table_sessions s
+    JOIN public.tables t ON t.id = s.table_id
+    JOIN public.restaurants r ON r.id = t.restaurant_id
+    WHERE s.id = _payment.session_id;
+
+    IF _provider <> 'mock' OR NOT _mock_enabled THEN
+      RAISE EXCEPTION 'Ce paiement doit être confirmé par le restaurant';
+    END IF;
+  END IF;
+
+  IF _payment.status = 'processing' AND _provider = 'cash' THEN
+    RAISE EXCEPTION 'Ce paiement est en cours de règlement par carte';
+  END IF;
+
+  IF _payment.status = 'pending' AND _provider <> 'cash' THEN
+    UPDATE public.payments SET status = 'processing' WHERE id = _payment_id;
+  END IF;
+END;
+$$;
+
+-- Hands a share back once its card payment was declined, so it can be paid
+-- another way or split again
+CREATE OR REPLACE FUNCTION public.release_payment(_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.is_session_member(_payment.session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Paiement introuvable';
+  END IF;
+
+  IF _payment.status = 'processing' THEN
+    UPDATE public.payments SET status = 'pending' WHERE id = _payment_id;
+  END IF;
+END;
+$$;
+
+-- Same as before, a held share is paid like a pending one
+CREATE OR REPLACE FUNCTION public.record_payment(_payment_id UUID, _provider TEXT, _provider_reference TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+
+  PERFORM public.authorize_payment(_payment_id, _provider);
+
+  -- Already recorded: a retry after a network failure
+  IF _payment.status NOT IN ('pending', 'processing') THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'paid', paid_at = now(), provider = _provider, provider_reference = NULLIF(_provider_reference, '')
+  WHERE id = _payment_id;
+END;
+$$;
+
+-- Same as before, a share being charged isn't paid yet
+CREATE OR REPLACE FUNCTION public.is_session_settled(_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = _session_id AND status IN ('pending', 'processing')
+    )
+    AND (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = _session_id AND status = 'paid')
+      >= (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = _session_id);
+$$;
+
+-- Same as before, refused while a share is being charged: replacing it
+-- would leave the card payment with nothing to record it on
+CREATE OR REPLACE FUNCTION public.split_table_bill(_session_id UUID, _mode public.bill_split_mode, _shares JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+  _remaining NUMERIC;
+  _base NUMERIC;
+  _share JSONB;
+  _index INTEGER := 0;
+  _assigned_ids UUID[];
+  _unpaid_ids UUID[];
+  _item_ids UUID[];
+  _amount NUMERIC;
+  _allocated NUMERIC := 0;
+BEGIN
+  IF NOT (
+    public.is_session_member(_session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Addition introuvable';
+  END IF;
+
+  -- Lock the tab so two splits or a split and a payment can't interleave
+  PERFORM 1 FROM public.table_sessions WHERE id = _session_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payments WHERE session_id = _session_id AND status = 'processing') THEN
+    RAISE EXCEPTION 'Un paiement est en cours, attendez qu''il soit terminé';
+  END IF;
+
+  IF jsonb_typeof(_shares) IS DISTINCT FROM 'array' OR jsonb_array_length(_shares) = 0 THEN
+    RAISE EXCEPTION 'Indiquez au moins une part';
+  END IF;
+  _count := jsonb_array_length(_shares);
+
+  DELETE FROM public.payments WHERE session_id = _session_id AND status = 'pending';
+
+  SELECT
+    (SELECT COALESCE(sum(total), 0) FROM public.orders WHERE session_id = _session_id)
+    - (SELECT COALESCE(sum(amount), 0) FROM public.payments WHERE session_id = _session_id AND status = 'paid')
+  INTO _remaining;
+
+  IF _remaining <= 0 THEN
+    RAISE EXCEPTION 'Il ne reste rien à régler sur cette addition';
+  END IF;
+
+  IF _mode = 'even' THEN
+    _base := floor(_remaining * 100 / _count) / 100;
+    IF _base < 0.01 THEN
+      RAISE EXCEPTION 'Trop de parts pour le montant restant';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      -- Cents that don't divide evenly go to the first share
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || (_index + 1)),
+        CASE WHEN _index = 0 THEN _remaining - _base * (_count - 1) ELSE _base END
+      );
+      _index := _index + 1;
+    END LOOP;
+
+  ELSIF _mode = 'items' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.payments
+      WHERE session_id = _session_id AND status = 'paid' AND split_mode <> 'items'
+    ) THEN
+      RAISE EXCEPTION 'Une partie de l''addition a déjà été réglée sans détail par plat';
+    END IF;
+
+    SELECT array_agg(item_id::UUID) INTO _assigned_ids
+    FROM jsonb_array_elements(_shares) s,
+      jsonb_array_elements_text(COALESCE(s->'order_item_ids', '[]'::jsonb)) item_id;
+
+    SELECT array_agg(oi.id) INTO _unpaid_ids
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.session_id = _session_id
+      AND oi.status <> 'voided'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.session_id = _session_id AND p.status = 'paid' AND oi.id = ANY(p.order_item_ids)
+      );
+
+    _assigned_ids := COALESCE(_assigned_ids, '{}');
+    _unpaid_ids := COALESCE(_unpaid_ids, '{}');
+
+    -- Every unpaid line must belong to exactly one share
+    IF cardinality(_assigned_ids) <> (SELECT count(DISTINCT id) FROM unnest(_assigned_ids) id)
+      OR NOT (_assigned_ids @> _unpaid_ids AND _unpaid_ids @> _assigned_ids)
+    THEN
+      RAISE EXCEPTION 'Chaque plat doit être attribué à une seule part';
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+
+      SELECT array_agg(value::UUID) INTO _item_ids
+      FROM jsonb_array_elements_text(COALESCE(_share->'order_item_ids', '[]'::jsonb));
+
+      IF _item_ids IS NULL THEN
+        RAISE EXCEPTION 'La part % ne contient aucun plat', _index;
+      END IF;
+
+      -- Each line carries its share of the order's tip and service charge;
+      -- the last share absorbs the rounding
+      IF _index = _count THEN
+        _amount := _remaining - _allocated;
+      ELSE
+        SELECT round(sum(oi.subtotal * o.total / lines.items_total), 2) INTO _amount
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        JOIN (
+          SELECT order_id, sum(subtotal) AS items_total
+          FROM public.order_items
+          WHERE status <> 'voided'
+          GROUP BY order_id
+        ) lines ON lines.order_id = oi.order_id
+        WHERE oi.id = ANY(_item_ids);
+      END IF;
+      _allocated := _allocated + _amount;
+
+      INSERT INTO public.payments (session_id, split_mode, label, amount, order_item_ids)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        _amount,
+        _item_ids
+      );
+    END LOOP;
+
+  ELSE
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_shares) s
+      WHERE COALESCE((s->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Chaque part doit avoir un montant positif';
+    END IF;
+
+    SELECT sum(round((s->>'amount')::NUMERIC, 2)) INTO _amount FROM jsonb_array_elements(_shares) s;
+    IF _amount <> _remaining THEN
+      RAISE EXCEPTION 'La somme des parts (% €) ne correspond pas au reste à payer (% €)', _amount, _remaining;
+    END IF;
+
+    FOR _share IN SELECT * FROM jsonb_array_elements(_shares) LOOP
+      _index := _index + 1;
+      INSERT INTO public.payments (session_id, split_mode, label, amount)
+      VALUES (
+        _session_id,
+        _mode,
+        COALESCE(NULLIF(trim(_share->>'label'), ''), 'Part ' || _index),
+        round((_share->>'amount')::NUMERIC, 2)
+      );
+    END LOOP;
+  END IF;
+END;
+$$;
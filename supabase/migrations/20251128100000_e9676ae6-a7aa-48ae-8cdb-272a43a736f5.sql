@@ -0,0 +1,111 @@
+-- A refund is written down before the provider is asked to pay it back, and
+-- completed once it has. If anything fails in between, the pending refund is
+-- picked up again, with its id as the provider's idempotency key, so the
+-- money can't go back twice.
+CREATE TYPE public.refund_status AS ENUM ('pending', 'completed');
+
+ALTER TABLE public.refunds
+ADD COLUMN status public.refund_status NOT NULL DEFAULT 'completed',
+ADD COLUMN provider_reference TEXT,
+ADD COLUMN completed_at TIMESTAMPTZ;
+
+UPDATE public.refunds SET completed_at = created_at;
+
+ALTER TABLE public.refunds ALTER COLUMN status SET DEFAULT 'pending';
+
+-- One refund under way per share at a time
+CREATE UNIQUE INDEX idx_refunds_pending_payment_id ON public.refunds(payment_id) WHERE status = 'pending';
+
+DROP FUNCTION public.authorize_refund(UUID, TEXT, NUMERIC);
+DROP FUNCTION public.record_refund(UUID, TEXT, NUMERIC);
+
+-- Staff start a refund before the provider issues it. Without an amount,
+-- whatever hasn't been refunded yet goes back. A refund of the same amount
+-- still pending on the share is handed back instead of a new one.
+CREATE OR REPLACE FUNCTION public.start_refund(_payment_id UUID, _reason TEXT, _amount NUMERIC DEFAULT NULL)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+  _pending public.refunds%ROWTYPE;
+  _refund public.refunds%ROWTYPE;
+  _refundable NUMERIC;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée aux responsables';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Indiquez le motif du remboursement';
+  END IF;
+
+  SELECT * INTO _payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+  IF NOT FOUND OR _payment.status <> 'paid' THEN
+    RAISE EXCEPTION 'Seul un paiement réglé peut être remboursé';
+  END IF;
+
+  _refundable := _payment.amount - _payment.refunded_amount;
+  _amount := round(COALESCE(_amount, _refundable), 2);
+
+  SELECT * INTO _pending FROM public.refunds WHERE payment_id = _payment_id AND status = 'pending';
+  IF FOUND THEN
+    IF _pending.amount <> _amount THEN
+      RAISE EXCEPTION 'Un remboursement de % € est déjà en cours sur ce paiement', _pending.amount;
+    END IF;
+    RETURN _pending;
+  END IF;
+
+  IF _amount <= 0 OR _amount > _refundable THEN
+    RAISE EXCEPTION 'Le montant remboursé doit être compris entre 0,01 et % €', _refundable;
+  END IF;
+
+  INSERT INTO public.refunds (payment_id, amount, reason, refunded_by)
+  VALUES (_payment_id, _amount, btrim(_reason), auth.uid())
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+-- Staff complete a refund once the provider has issued it
+CREATE OR REPLACE FUNCTION public.record_refund(_refund_id UUID, _provider_reference TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _refund public.refunds%ROWTYPE;
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Action réservée aux responsables';
+  END IF;
+
+  SELECT * INTO _refund FROM public.refunds WHERE id = _refund_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Remboursement introuvable';
+  END IF;
+
+  -- Already recorded: a retry after a network failure
+  IF _refund.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.refunds
+  SET status = 'completed', completed_at = now(), provider_reference = NULLIF(_provider_reference, '')
+  WHERE id = _refund_id;
+
+  UPDATE public.payments
+  SET refunded_amount = refunded_amount + _refund.amount, refunded_at = now()
+  WHERE id = _refund.payment_id;
+END;
+$$;
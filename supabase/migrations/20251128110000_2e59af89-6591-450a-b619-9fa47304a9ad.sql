@@ -0,0 +1,12 @@
+-- The guest menu opens categories in the restaurant's time zone, like
+-- add_order_items does, whatever the phone is set to. Guests can't read
+-- the restaurants table.
+CREATE OR REPLACE FUNCTION public.get_restaurant_time_zone(_restaurant_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT timezone FROM public.restaurants WHERE id = _restaurant_id
+$$;
@@ -0,0 +1,111 @@
+-- How many people sit at the table. Several guests may share one phone, or
+-- one guest join from two, so the members of the session say nothing about
+-- it: the table tells, and staff can correct it.
+ALTER TABLE public.table_sessions
+ADD COLUMN guest_count INTEGER CHECK (guest_count BETWEEN 1 AND 99);
+
+CREATE OR REPLACE FUNCTION public.set_session_guest_count(_session_id UUID, _guest_count INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.is_session_member(_session_id)
+    OR public.has_role(auth.uid(), 'admin')
+    OR public.has_role(auth.uid(), 'server')
+    OR public.has_role(auth.uid(), 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Vous ne faites pas partie de cette table';
+  END IF;
+
+  IF _guest_count IS NULL OR _guest_count < 1 OR _guest_count > 99 THEN
+    RAISE EXCEPTION 'Nombre de convives invalide';
+  END IF;
+
+  UPDATE public.table_sessions
+  SET guest_count = _guest_count
+  WHERE id = _session_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cette addition est déjà clôturée';
+  END IF;
+END;
+$$;
+
+-- Same as before, the service charge going by the number of guests at the
+-- table rather than by the phones that joined it. A restaurant charging
+-- from a number of guests on needs that number before the first order.
+CREATE OR REPLACE FUNCTION public.place_order(_table_token TEXT, _items JSONB, _idempotency_key UUID, _tip JSONB DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table public.tables%ROWTYPE;
+  _restaurant public.restaurants%ROWTYPE;
+  _order_id UUID;
+  _session_id UUID;
+  _subtotal NUMERIC;
+  _service_charge NUMERIC := 0;
+  _tip_amount NUMERIC;
+  _guest_count INTEGER;
+BEGIN
+  IF _idempotency_key IS NULL THEN
+    RAISE EXCEPTION 'Clé d''idempotence manquante';
+  END IF;
+
+  SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+  IF FOUND THEN
+    RETURN _order_id;
+  END IF;
+
+  SELECT * INTO _table
+  FROM public.tables
+  WHERE qr_code_data = _table_token AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table invalide, veuillez rescanner le QR code';
+  END IF;
+
+  SELECT * INTO _restaurant FROM public.restaurants WHERE id = _table.restaurant_id;
+  _session_id := public.ensure_table_session(_table.id);
+
+  SELECT guest_count INTO _guest_count FROM public.table_sessions WHERE id = _session_id;
+  IF _restaurant.service_charge_percent IS NOT NULL
+    AND COALESCE(_restaurant.service_charge_min_guests, 1) > 1
+    AND _guest_count IS NULL
+  THEN
+    RAISE EXCEPTION 'Indiquez le nombre de convives de la table';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.orders (table_id, total, status, idempotency_key, guest_id, session_id)
+    VALUES (_table.id, 0, 'received', _idempotency_key, auth.uid(), _session_id)
+    RETURNING id INTO _order_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent call with the same key won the race
+    SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _idempotency_key;
+    RETURN _order_id;
+  END;
+
+  _subtotal := public.add_order_items(_order_id, _table.restaurant_id, _items);
+  _tip_amount := public.compute_order_tip(_tip, _subtotal);
+
+  IF _restaurant.service_charge_percent IS NOT NULL
+    AND COALESCE(_guest_count, 1) >= COALESCE(_restaurant.service_charge_min_guests, 1)
+  THEN
+    _service_charge := round(_subtotal * _restaurant.service_charge_percent / 100, 2);
+  END IF;
+
+  UPDATE public.orders
+  SET total = _subtotal + _service_charge + _tip_amount,
+    service_charge = _service_charge,
+    tip = _tip_amount
+  WHERE id = _order_id;
+
+  RETURN _order_id;
+END;
+$$;
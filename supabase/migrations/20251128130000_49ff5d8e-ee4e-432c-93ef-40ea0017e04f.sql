@@ -0,0 +1,161 @@
+-- Only category groups can depend on an option: no screen sets the parent
+-- of a dish's own groups, so the column goes.
+
+-- Same as before, the dish groups having no parent option
+CREATE OR REPLACE FUNCTION public.resolve_dish_options(_dish_id UUID, _include_hidden BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH groups AS (
+    SELECT
+      g.id,
+      g.name,
+      COALESCE(g.min_select, CASE WHEN g.is_required THEN 1 ELSE 0 END) AS min_select,
+      CASE
+        WHEN g.max_select IS NOT NULL THEN g.max_select
+        WHEN g.selection_type = 'multiple' THEN NULL
+        ELSE 1
+      END AS max_select,
+      g.free_quantity,
+      g.parent_option_id,
+      COALESCE(ov.display_order, g.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.dishes d
+    JOIN public.category_option_groups g ON g.category = d.category
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = d.id AND ov.group_id = g.id
+    WHERE d.id = _dish_id
+    UNION ALL
+    SELECT
+      g.id,
+      g.name,
+      COALESCE(g.min_select, CASE WHEN g.is_required THEN 1 ELSE 0 END),
+      CASE
+        WHEN g.max_select IS NOT NULL THEN g.max_select
+        WHEN g.allow_multiple THEN NULL
+        ELSE 1
+      END,
+      g.free_quantity,
+      NULL::UUID,
+      g.display_order,
+      false,
+      false
+    FROM public.dish_option_groups g
+    WHERE g.dish_id = _dish_id
+  ),
+  options AS (
+    SELECT
+      o.option_group_id AS group_id,
+      o.id,
+      o.name,
+      COALESCE(ov.price_modifier, o.extra_price) AS price_modifier,
+      o.max_quantity,
+      COALESCE(ov.display_order, o.display_order) AS display_order,
+      COALESCE(ov.is_hidden, false) AS is_hidden,
+      true AS inherited
+    FROM public.category_options o
+    JOIN groups g ON g.id = o.option_group_id AND g.inherited
+    LEFT JOIN public.dish_option_overrides ov ON ov.dish_id = _dish_id AND ov.option_id = o.id
+    UNION ALL
+    SELECT o.option_group_id, o.id, o.name, o.price_modifier, o.max_quantity, o.display_order, false, false
+    FROM public.dish_options o
+    JOIN groups g ON g.id = o.option_group_id AND NOT g.inherited
+  ),
+  resolved AS (
+    SELECT
+      g.*,
+      (
+        SELECT COALESCE(
+          jsonb_agg(
+            jsonb_build_object(
+              'id', o.id,
+              'name', o.name,
+              'price_modifier', o.price_modifier,
+              'max_quantity', o.max_quantity,
+              'is_hidden', o.is_hidden,
+              'inherited', o.inherited
+            )
+            ORDER BY o.display_order, o.name
+          ),
+          '[]'::jsonb
+        )
+        FROM options o
+        WHERE o.group_id = g.id AND (_include_hidden OR NOT o.is_hidden)
+      ) AS options
+    FROM groups g
+    WHERE _include_hidden OR NOT g.is_hidden
+  )
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'is_required', r.min_select > 0,
+        'allow_multiple', r.max_select IS NULL OR r.max_select > 1,
+        'min_select', r.min_select,
+        'max_select', r.max_select,
+        'free_quantity', r.free_quantity,
+        'parent_option_id', r.parent_option_id,
+        'display_order', r.display_order,
+        'is_hidden', r.is_hidden,
+        'inherited', r.inherited,
+        'options', r.options
+      )
+      ORDER BY r.display_order, r.inherited DESC, r.name
+    ),
+    '[]'::jsonb
+  )
+  FROM resolved r
+  -- A group left without options can't be chosen from, even if required
+  WHERE _include_hidden OR jsonb_array_length(r.options) > 0;
+$$;
+
+ALTER TABLE public.dish_option_groups DROP COLUMN parent_option_id;
+
+-- A category group can only depend on an option of the same category, and
+-- not on one of the options of its own subtree.
+CREATE OR REPLACE FUNCTION public.check_category_group_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _option_id UUID := NEW.parent_option_id;
+  _group public.category_option_groups;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.category IS DISTINCT FROM OLD.category AND EXISTS (
+    SELECT 1
+    FROM public.category_option_groups child
+    JOIN public.category_options o ON o.id = child.parent_option_id
+    WHERE o.option_group_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Des groupes dépendent des options de "%", détachez-les avant de changer de catégorie', NEW.name;
+  END IF;
+
+  WHILE _option_id IS NOT NULL LOOP
+    SELECT g.* INTO _group
+    FROM public.category_options o
+    JOIN public.category_option_groups g ON g.id = o.option_group_id
+    WHERE o.id = _option_id;
+
+    IF _group.category IS DISTINCT FROM NEW.category THEN
+      RAISE EXCEPTION 'L''option parente doit appartenir à la même catégorie';
+    END IF;
+
+    IF _group.id = NEW.id THEN
+      RAISE EXCEPTION 'Un groupe ne peut pas dépendre de ses propres options';
+    END IF;
+
+    _option_id := _group.parent_option_id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_category_group_parent
+  BEFORE INSERT OR UPDATE OF parent_option_id, category ON public.category_option_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_group_parent();